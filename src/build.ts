@@ -1,146 +1,643 @@
 import fs from 'node:fs/promises';
 import path from 'node:path';
-import { ensureDocsRepo, getRepoMeta } from './git.js';
 import {
-  docPathToUrl,
-  expandIncludeDirectives,
-  extractSummary,
-  extractTitle,
-  normalizeLinks,
-  stripFrontmatter,
-  stripLeadingH1,
-  stripVuePressDirectives
-} from './markdown.js';
-import type { BuildConfig } from './config.js';
+  hashConfig,
+  hashContent,
+  loadBuildCache,
+  saveBuildCache,
+  type BuildCache
+} from './cache.js';
+import { chunkPage } from './chunk.js';
+import { BUILD_REPORT_FILE, writeBuildReport, type Diagnostic } from './diagnostics.js';
+import { diffPages, renderChanges, toSnapshot } from './diff.js';
+import { matchesAny } from './glob.js';
+import { docPathToUrlPath, findLinks } from './markdown.js';
+import {
+  claimOutputDir,
+  MANIFEST_FILE,
+  publishOutputDir,
+  stageOutputDir,
+  TOOL_NAME,
+  TOOL_VERSION,
+  writeManifest
+} from './output.js';
+import {
+  loadSources,
+  type LoadedSource,
+  type ProcessedPage
+} from './pipeline.js';
+import {
+  buildSearchIndex,
+  SEARCH_INDEX_FILE,
+  type SearchDocument,
+  type SearchSource
+} from './search.js';
+import { groupPages } from './sidebar.js';
+import { estimateTokens, formatTokens, splitBySize, type SizeLimit } from './tokens.js';
+import {
+  omitUndefined,
+  outputSettings,
+  type BuildConfig,
+  type DocSource,
+  type SmallOutput
+} from './config.js';
 
-export type BuildResult = {
-  fullPath: string;
+export type { ProcessedPage } from './pipeline.js';
+
+export type PageTokens = {
+  relPath: string;
+  tokens: number;
+};
+
+export type SourceResult = {
+  id: string;
+  title: string;
+  fullPath?: string;
+  smallPath?: string;
   indexPath: string;
+  partPaths: string[];
+  pagesPath?: string;
+  chunksPath?: string;
+  changesPath?: string;
   totalFiles: number;
+  processedFiles: number;
+  upToDate: boolean;
+  commit: string;
+  ref?: string;
+  timestamp: string;
+  totalTokens: number;
+  pageTokens: PageTokens[];
 };
 
-type IndexEntry = {
-  title: string;
+export type PageRecord = {
+  source: string;
+  relPath: string;
   url: string;
+  title: string;
   summary: string;
-  relPath: string;
+  group: string;
+  headings: { level: number; text: string; slug: string }[];
+  body: string;
+  links: string[];
+  hash: string;
+};
+
+export type BuildResult = {
+  indexPath: string;
+  searchIndexPath?: string;
+  totalFiles: number;
+  totalTokens: number;
+  upToDate: boolean;
+  failed: boolean;
+  sources: SourceResult[];
+  diagnostics: Diagnostic[];
+  reportPath: string;
+  manifestPath?: string;
+};
+
+type OutputFile = {
+  path: string;
+  content: string;
+};
+
+type RenderedSource = {
+  result: SourceResult;
+  files?: OutputFile[];
 };
 
 export async function build(config: BuildConfig): Promise<BuildResult> {
-  const docsRepoDir = path.resolve(config.docsDir);
   const outputDir = path.resolve(config.outputDir);
-  const baseUrl = config.baseUrl.endsWith('/') ? config.baseUrl : `${config.baseUrl}/`;
+  const cacheDir = path.resolve(config.cacheDir);
+  const cache: BuildCache<ProcessedPage> = config.cache
+    ? await loadBuildCache<ProcessedPage>(cacheDir)
+    : { version: 0, sources: {} };
+
+  const previous = await claimOutputDir(outputDir, config.force);
+  const published = new Set(previous?.files.map((file) => file.path));
+  const loaded = await loadSources(config, cache);
+  const diagnostics = loaded.flatMap((source) => source.diagnostics);
+
+  // A failed strict build leaves the published outputs, and the manifest describing them, alone.
+  if (config.strict && diagnostics.some((diagnostic) => diagnostic.severity === 'error')) {
+    return {
+      indexPath: path.join(outputDir, 'llms.txt'),
+      totalFiles: loaded.reduce((sum, source) => sum + source.pages.length, 0),
+      totalTokens: 0,
+      upToDate: false,
+      failed: true,
+      sources: [],
+      diagnostics,
+      reportPath: await writeBuildReport(cacheDir, diagnostics)
+    };
+  }
+
+  const searchDocuments: SearchDocument[] = [];
+  const rendered: RenderedSource[] = [];
+  for (const loadedSource of loaded) {
+    rendered.push(
+      await renderSource(loadedSource, config, outputDir, published, searchDocuments, diagnostics),
+    );
+  }
+  const sources = rendered.map(({ result }) => result);
+
+  const indexPath = path.join(outputDir, 'llms.txt');
+  const searchIndexPath = config.formats.includes('search')
+    ? path.join(outputDir, SEARCH_INDEX_FILE)
+    : undefined;
+  const reportPath = path.join(outputDir, BUILD_REPORT_FILE);
+  const manifestPath = path.join(outputDir, MANIFEST_FILE);
+  const upToDate =
+    previous !== undefined &&
+    sources.every((source) => source.upToDate) &&
+    (await isPublished(indexPath, outputDir, published)) &&
+    (!searchIndexPath || (await isPublished(searchIndexPath, outputDir, published))) &&
+    (await isPublished(reportPath, outputDir, published));
+
+  if (!upToDate) {
+    // The complete set of outputs is written to a new directory and then moved into place.
+    const stagingDir = await stageOutputDir(outputDir);
+    const staged = (filePath: string) => path.join(stagingDir, path.relative(outputDir, filePath));
+    try {
+      const reused = rendered.filter(({ files }) => !files).map(({ result }) => `${result.id}/`);
+      for (const file of previous?.files ?? []) {
+        if (reused.some((prefix) => file.path.startsWith(prefix))) {
+          const filePath = path.join(outputDir, file.path);
+          await fs.mkdir(path.dirname(staged(filePath)), { recursive: true });
+          await fs.copyFile(filePath, staged(filePath));
+        }
+      }
+      for (const file of rendered.flatMap(({ files }) => files ?? [])) {
+        await fs.mkdir(path.dirname(staged(file.path)), { recursive: true });
+        await fs.writeFile(staged(file.path), file.content, 'utf8');
+      }
+
+      await fs.writeFile(staged(indexPath), renderIndex(config, sources), 'utf8');
+      if (searchIndexPath) {
+        const searchSources: SearchSource[] = sources.map((source) =>
+          omitUndefined({
+            id: source.id,
+            title: source.title,
+            commit: source.commit,
+            ref: source.ref,
+            timestamp: source.timestamp
+          }),
+        );
+        const searchIndex = buildSearchIndex(searchSources, searchDocuments);
+        await fs.writeFile(staged(searchIndexPath), JSON.stringify(searchIndex), 'utf8');
+      }
 
-  await ensureDocsRepo(docsRepoDir, config.docsRepo);
-  const primaryDocsRoot = path.join(docsRepoDir, 'docs', 'docs', '5.x');
-  const fallbackDocsRoot = path.join(docsRepoDir, 'docs', '5.x');
-  const docsRoot = await resolveDocsRoot([primaryDocsRoot, fallbackDocsRoot]);
+      await writeBuildReport(stagingDir, diagnostics);
+      await writeManifest(stagingDir, {
+        tool: { name: TOOL_NAME, version: TOOL_VERSION },
+        configHash: hashConfig(outputSettings(config)),
+        pages: loaded.reduce((sum, source) => sum + source.pages.length, 0),
+        sources: loaded.map(({ source, meta, pages }) =>
+          omitUndefined({
+            id: source.id,
+            commit: meta.commit,
+            ref: meta.ref,
+            timestamp: meta.timestamp,
+            pages: pages.length
+          }),
+        )
+      });
+      await publishOutputDir(stagingDir, outputDir, previous);
+    } finally {
+      await fs.rm(stagingDir, { recursive: true, force: true });
+    }
+  }
 
-  const files = await collectMarkdownFiles(docsRoot);
-  const { commit, timestamp } = await getRepoMeta(docsRepoDir);
+  if (config.cache) {
+    await saveBuildCache(cacheDir, cache);
+  }
 
+  return {
+    indexPath,
+    searchIndexPath,
+    totalFiles: loaded.reduce((sum, source) => sum + source.pages.length, 0),
+    totalTokens: sources.reduce((sum, source) => sum + source.totalTokens, 0),
+    upToDate,
+    failed: false,
+    sources,
+    diagnostics,
+    reportPath,
+    manifestPath
+  };
+}
+
+function renderIndex(config: BuildConfig, sources: SourceResult[]): string {
+  const indexLines: string[] = [];
+  indexLines.push(`# ${config.index.title}`, '');
+  indexLines.push(...preambleLines(config.index.summary, config.index.notes));
+  indexLines.push('## Documentation sets');
+  for (const source of sources) {
+    const indexLink = `${source.id}/llms.txt`;
+    const outputs: string[] = [];
+    if (source.fullPath) {
+      outputs.push(`Full text: [llms-full.txt](${source.id}/llms-full.txt). `);
+    }
+    if (source.smallPath) {
+      outputs.push(`Core pages: [llms-small.txt](${source.id}/llms-small.txt). `);
+    }
+    if (source.pagesPath) {
+      outputs.push(`Pages: [pages.jsonl](${source.id}/pages.jsonl). `);
+    }
+    if (source.chunksPath) {
+      outputs.push(`Chunks: [chunks.jsonl](${source.id}/chunks.jsonl). `);
+    }
+    if (source.changesPath) {
+      outputs.push(`Changes: [llms-changes.txt](${source.id}/llms-changes.txt). `);
+    }
+    indexLines.push(
+      `- [${source.title}](${indexLink}) — ${outputs.join('')}Last updated: ${source.timestamp} (${revisionLabel(source)})`,
+    );
+  }
+  return `${indexLines.join('\n').trimEnd()}\n`;
+}
+
+// Renders the outputs of a source, or returns no files when the existing ones are up to date.
+async function renderSource(
+  loaded: LoadedSource,
+  config: BuildConfig,
+  outputDir: string,
+  published: Set<string>,
+  searchDocuments: SearchDocument[],
+  diagnostics: Diagnostic[],
+): Promise<RenderedSource> {
+  const { source, meta, pages, sidebar, relPaths, processedPaths, previous: reusable, lastBuild, next } =
+    loaded;
+
+  const preamble = preambleLines(source.summary, source.notes);
   const headerLines = [
-    '# Craft CMS Documentation',
-    'Craft CMS 5.x documentation covering installation, configuration, templating, and extension points.',
-    `Last updated: ${timestamp} (commit ${commit})`,
+    `# ${source.fileTitles.full}`,
+    '',
+    ...preamble,
+    `Last updated: ${meta.timestamp} (${revisionLabel(meta)})`,
     ''
   ];
 
-  const pageChunks: string[] = [];
-  const indexGroups = new Map<string, IndexEntry[]>();
-
-  for (const filePath of files) {
-    const raw = await fs.readFile(filePath, 'utf8');
-    const withoutFrontmatter = stripFrontmatter(raw);
-    const expanded = await expandIncludeDirectives(withoutFrontmatter, {
-      repoRoot: docsRepoDir,
-      currentFilePath: filePath
+  const groups = groupPages(pages, sidebar).map((group) => ({
+    ...group,
+    title: source.groups[group.key]?.title ?? group.title,
+    description: source.groups[group.key]?.description
+  }));
+  const orderedPages = sidebar ? groups.flatMap((group) => group.pages) : pages;
+  const groupTitles = new Map<ProcessedPage, string>();
+  for (const group of groups) {
+    for (const page of group.pages) {
+      groupTitles.set(page, group.title);
+    }
+  }
+
+  for (const page of orderedPages) {
+    searchDocuments.push({
+      source: source.id,
+      relPath: page.relPath,
+      url: page.url,
+      title: page.title,
+      group: groupTitles.get(page) ?? page.group,
+      body: page.content.trim()
     });
-    const cleaned = stripVuePressDirectives(expanded);
+  }
 
-    const relPath = toPosixPath(path.relative(docsRoot, filePath));
-    const fallbackTitle = path.basename(filePath, path.extname(filePath));
-    const title = extractTitle(cleaned, fallbackTitle);
+  const pageChunks: string[] = [];
+  const pageTokens: PageTokens[] = [];
+  for (const page of orderedPages) {
+    const lines = ['---', `# ${page.title}`];
+    if (sidebar) {
+      lines.push(`Section: ${groupTitles.get(page)}`);
+    }
+    lines.push(...pageMetaLines(page), page.content, '');
+    const chunk = lines.join('\n');
+    pageChunks.push(chunk);
+    pageTokens.push({ relPath: page.relPath, tokens: estimateTokens(chunk) });
+  }
+
+  const header = headerLines.join('\n');
+  const fullText = renderFull(header, pageChunks);
+  const totalTokens = estimateTokens(fullText);
+  const writeText = config.formats.includes('text');
+  const partTexts = writeText ? splitFullText(header, pageChunks, config.split, fullText) : [];
 
-    const contentWithoutTitle = stripLeadingH1(cleaned);
-    const normalizedContent = normalizeLinks(contentWithoutTitle, {
-      baseUrl,
-      currentFilePath: relPath
-    }).trimEnd();
+  const sourceDir = path.join(outputDir, source.id);
+  const fullPath = writeText ? path.join(sourceDir, 'llms-full.txt') : undefined;
+  const smallPath = config.formats.includes('small') ? path.join(sourceDir, 'llms-small.txt') : undefined;
+  const small = smallPath
+    ? renderSmall(header, orderedPages, pageChunks, config.small)
+    : undefined;
+  const smallText = small?.text;
+  if (small && small.skipped.length > 0) {
+    diagnostics.push({
+      sourceId: source.id,
+      file: 'llms-small.txt',
+      severity: 'warning',
+      code: 'small-budget',
+      message: `Left out to stay within small.maxTokens (${config.small.maxTokens}): ${small.skipped.join(', ')}`
+    });
+  }
+  const indexPath = path.join(sourceDir, 'llms.txt');
+  const partPaths = partTexts.map((_, index) => path.join(sourceDir, `llms-full-${index + 1}.txt`));
+  const pagesPath = config.formats.includes('jsonl') ? path.join(sourceDir, 'pages.jsonl') : undefined;
+  const chunksPath = config.formats.includes('chunks') ? path.join(sourceDir, 'chunks.jsonl') : undefined;
+  const changesPath = config.changes ? path.join(sourceDir, 'llms-changes.txt') : undefined;
 
-    pageChunks.push('---', `# ${title}`, normalizedContent, '');
+  const indexLines: string[] = [];
+  indexLines.push(`# ${source.fileTitles.index}`, '', ...preamble);
+  indexLines.push(`Last updated: ${meta.timestamp} (${revisionLabel(meta)})`, '');
 
-    const summary = extractSummary(contentWithoutTitle);
-    const url = docPathToUrl(relPath, baseUrl);
-    const group = relPath.includes('/') ? relPath.split('/')[0] : 'root';
-    const entries = indexGroups.get(group) ?? [];
-    entries.push({ title, url, summary, relPath });
-    indexGroups.set(group, entries);
+  if (partTexts.length > 0) {
+    indexLines.push('## Full text');
+    indexLines.push(`- [llms-full.txt](llms-full.txt) — complete text, ~${formatTokens(totalTokens)} tokens`);
+    partTexts.forEach((text, index) => {
+      const name = path.basename(partPaths[index]);
+      indexLines.push(
+        `- [${name}](${name}) — part ${index + 1} of ${partTexts.length}, ~${formatTokens(estimateTokens(text))} tokens`,
+      );
+    });
+    indexLines.push('');
   }
 
-  const fullText = `${headerLines.join('\n')}\n${pageChunks.join('\n').trimEnd()}\n`;
+  const indexEntry = (entry: ProcessedPage) => {
+    const summary = entry.summary ? ` — ${entry.summary}` : '';
+    const url = config.pageMirrors ? mirrorUrl(entry, source, config) : entry.url;
+    return `- [${entry.title}](${url})${summary}`;
+  };
+  const isOptional = (entry: ProcessedPage) => matchesAny(entry.relPath, config.optional);
 
-  const indexLines: string[] = [];
-  indexLines.push('# Craft CMS Documentation Index');
-  indexLines.push(`Last updated: ${timestamp} (commit ${commit})`, '');
-
-  const sortedGroups = Array.from(indexGroups.keys()).sort((a, b) => a.localeCompare(b));
-  for (const group of sortedGroups) {
-    indexLines.push(`## ${group}`);
-    const entries = indexGroups.get(group) ?? [];
-    entries.sort((a, b) => a.relPath.localeCompare(b.relPath));
-    for (const entry of entries) {
-      const summary = entry.summary ? ` — ${entry.summary}` : '';
-      indexLines.push(`- [${entry.title}](${entry.url})${summary}`);
+  for (const group of groups) {
+    const entries = group.pages.filter((entry) => !isOptional(entry));
+    if (entries.length === 0) {
+      continue;
     }
-    indexLines.push('');
+    indexLines.push(`## ${group.title}`);
+    if (group.description) {
+      indexLines.push(group.description, '');
+    }
+    indexLines.push(...entries.map(indexEntry), '');
+  }
+
+  const optionalPages = orderedPages.filter(isOptional);
+  if (optionalPages.length > 0) {
+    indexLines.push('## Optional', ...optionalPages.map(indexEntry), '');
   }
 
   const indexText = `${indexLines.join('\n').trimEnd()}\n`;
 
-  await fs.mkdir(outputDir, { recursive: true });
-  const fullPath = path.join(outputDir, 'llms-full.txt');
-  const indexPath = path.join(outputDir, 'llms.txt');
-  await fs.writeFile(fullPath, fullText, 'utf8');
-  await fs.writeFile(indexPath, indexText, 'utf8');
+  const result: SourceResult = {
+    id: source.id,
+    title: source.title,
+    fullPath,
+    smallPath,
+    indexPath,
+    partPaths,
+    pagesPath,
+    chunksPath,
+    changesPath,
+    totalFiles: pages.length,
+    processedFiles: pages.filter((page) => processedPaths.has(page.relPath)).length,
+    upToDate: false,
+    commit: meta.commit,
+    ref: meta.ref,
+    timestamp: meta.timestamp,
+    totalTokens,
+    pageTokens
+  };
+
+  const unchanged =
+    reusable !== undefined &&
+    processedPaths.size === 0 &&
+    reusable.commit === meta.commit &&
+    reusable.ref === meta.ref &&
+    reusable.layoutHash === next.layoutHash &&
+    reusable.files.join('\n') === relPaths.join('\n') &&
+    (!fullPath || (await isPublished(fullPath, outputDir, published))) &&
+    (!smallPath || (await isPublished(smallPath, outputDir, published))) &&
+    (!pagesPath || (await isPublished(pagesPath, outputDir, published))) &&
+    (!chunksPath || (await isPublished(chunksPath, outputDir, published))) &&
+    (!changesPath || (await isPublished(changesPath, outputDir, published))) &&
+    (await isPublished(indexPath, outputDir, published));
+  if (unchanged) {
+    return { result: { ...result, upToDate: true } };
+  }
+
+  let changesText: string | undefined;
+  if (changesPath) {
+    if (lastBuild?.commit === meta.commit && (await isPublished(changesPath, outputDir, published))) {
+      changesText = await fs.readFile(changesPath, 'utf8');
+    } else if (lastBuild) {
+      const before = Object.values(lastBuild.pages)
+        .map((entry) => entry.page)
+        .filter((page) => !page.excluded);
+      changesText = renderChanges([
+        {
+          id: source.id,
+          title: source.title,
+          heading: source.fileTitles.changes,
+          from: revisionLabel(lastBuild),
+          to: revisionLabel(meta),
+          diff: diffPages(before.map(toSnapshot), pages.map(toSnapshot))
+        }
+      ]);
+    } else {
+      changesText = `# ${source.fileTitles.changes}\nNo previous snapshot to compare with.\n`;
+    }
+  }
 
-  return { fullPath, indexPath, totalFiles: files.length };
+  const files: OutputFile[] = [{ path: indexPath, content: indexText }];
+  if (fullPath) {
+    files.push({ path: fullPath, content: fullText });
+  }
+  if (smallPath && smallText !== undefined) {
+    files.push({ path: smallPath, content: smallText });
+  }
+  for (const [index, text] of partTexts.entries()) {
+    files.push({ path: partPaths[index], content: text });
+  }
+
+  if (pagesPath) {
+    const records = orderedPages.map((page) =>
+      JSON.stringify(pageRecord(page, source, groupTitles.get(page) ?? page.group)),
+    );
+    files.push({ path: pagesPath, content: records.map((record) => `${record}\n`).join('') });
+  }
+
+  if (changesPath && changesText !== undefined) {
+    files.push({ path: changesPath, content: changesText });
+  }
+
+  if (chunksPath) {
+    const records = orderedPages.flatMap((page) =>
+      chunkPage(page, config.chunks).map((chunk) => JSON.stringify({ source: source.id, ...chunk })),
+    );
+    files.push({ path: chunksPath, content: records.map((record) => `${record}\n`).join('') });
+  }
+
+  if (config.pageMirrors) {
+    for (const page of pages) {
+      files.push({ path: path.join(sourceDir, mirrorRelPath(page)), content: renderMirror(page) });
+    }
+  }
+
+  return { result, files };
 }
 
-async function resolveDocsRoot(candidates: string[]): Promise<string> {
-  for (const candidate of candidates) {
-    try {
-      await fs.access(candidate);
-      return candidate;
-    } catch {
-      // Try next candidate.
+function preambleLines(summary: string | undefined, notes: string[]): string[] {
+  const lines = summary ? [`> ${summary}`, ''] : [];
+  for (const note of notes) {
+    lines.push(note, '');
+  }
+  return lines;
+}
+
+function renderSmall(
+  header: string,
+  pages: ProcessedPage[],
+  pageChunks: string[],
+  rules: SmallOutput,
+): { text: string; skipped: string[] } {
+  const selected = pages
+    .map((page, index) => ({ page, full: pageChunks[index], reduced: reducedChunk(page) }))
+    .filter(
+      ({ page }) => matchesAny(page.relPath, rules.include) && !matchesAny(page.relPath, rules.exclude),
+    );
+
+  let remaining = rules.maxTokens - estimateTokens(header);
+  const kept: typeof selected = [];
+  const skipped: string[] = [];
+  for (const entry of selected) {
+    const tokens = estimateTokens(entry.reduced);
+    if (tokens > remaining) {
+      skipped.push(entry.page.relPath);
+      continue;
     }
+    kept.push(entry);
+    remaining -= tokens;
   }
-  throw new Error(`Docs path not found. Checked: ${candidates.join(', ')}`);
+  const chunks = kept.map((entry) => entry.reduced);
+  for (const [index, entry] of kept.entries()) {
+    const extra = estimateTokens(entry.full) - estimateTokens(entry.reduced);
+    if (extra <= remaining) {
+      chunks[index] = entry.full;
+      remaining -= extra;
+    }
+  }
+
+  return { text: renderFull(header, chunks), skipped };
 }
 
-async function collectMarkdownFiles(rootDir: string): Promise<string[]> {
-  const entries = await fs.readdir(rootDir, { withFileTypes: true });
-  const files: string[] = [];
+function reducedChunk(page: ProcessedPage): string {
+  const lines = ['---', `# ${page.title}`, `URL: ${page.url}`];
+  if (page.summary) {
+    lines.push('', page.summary);
+  }
+  const outline = page.headings.filter((heading) => heading.level === 2 || heading.level === 3);
+  if (outline.length > 0) {
+    lines.push(
+      '',
+      'Outline:',
+      ...outline.map((heading) => `${heading.level === 3 ? '  ' : ''}- ${heading.text}`),
+    );
+  }
+  lines.push('');
+  return lines.join('\n');
+}
+
+function pageRecord(page: ProcessedPage, source: DocSource, group: string): PageRecord {
+  const body = page.content.trim();
+  const links = new Set(
+    findLinks(body)
+      .map((link) => link.destination)
+      .filter((destination) => !destination.startsWith('#')),
+  );
+  return {
+    source: source.id,
+    relPath: page.relPath,
+    url: page.url,
+    title: page.title,
+    summary: page.summary,
+    group,
+    headings: page.headings.map(({ level, text, slug }) => ({ level, text, slug })),
+    body,
+    links: [...links],
+    hash: hashContent(body)
+  };
+}
 
-  const dirs = entries.filter((entry) => entry.isDirectory()).sort((a, b) => a.name.localeCompare(b.name));
-  const mdFiles = entries
-    .filter((entry) => entry.isFile() && entry.name.toLowerCase().endsWith('.md'))
-    .sort((a, b) => a.name.localeCompare(b.name));
+function revisionLabel(meta: { commit: string; ref?: string }): string {
+  return meta.ref ? `ref ${meta.ref}, commit ${meta.commit}` : `commit ${meta.commit}`;
+}
+
+function renderFull(header: string, pageChunks: string[]): string {
+  return `${header}\n${pageChunks.join('\n').trimEnd()}\n`;
+}
 
-  for (const file of mdFiles) {
-    files.push(path.join(rootDir, file.name));
+function splitFullText(
+  header: string,
+  pageChunks: string[],
+  limit: SizeLimit,
+  fullText: string,
+): string[] {
+  if (limit.maxTokens === undefined && limit.maxBytes === undefined) {
+    return [];
   }
+  const fitsTokens = limit.maxTokens === undefined || estimateTokens(fullText) <= limit.maxTokens;
+  const fitsBytes = limit.maxBytes === undefined || Buffer.byteLength(fullText) <= limit.maxBytes;
+  if (fitsTokens && fitsBytes) {
+    return [];
+  }
+
+  const parts = splitBySize(pageChunks, limit, `${header}\nPart 000 of 000\n`);
+  if (parts.length <= 1) {
+    return [];
+  }
+  return parts.map((chunks, index) =>
+    renderFull(`${header}\nPart ${index + 1} of ${parts.length}\n`, chunks),
+  );
+}
+
+function mirrorRelPath(page: ProcessedPage): string {
+  return `${docPathToUrlPath(page.relPath)}.md`;
+}
+
+function mirrorUrl(page: ProcessedPage, source: DocSource, config: BuildConfig): string {
+  if (!config.mirrorBaseUrl) {
+    return mirrorRelPath(page);
+  }
+  const base = config.mirrorBaseUrl.endsWith('/') ? config.mirrorBaseUrl : `${config.mirrorBaseUrl}/`;
+  return `${base}${source.id}/${mirrorRelPath(page)}`;
+}
+
+function renderMirror(page: ProcessedPage): string {
+  const meta = [`Source: ${page.url}`, ...pageMetaLines(page)].join('\n');
+  return `# ${page.title}\n\n${meta}\n\n${page.content.trimStart()}\n`;
+}
 
-  for (const dir of dirs) {
-    const childPath = path.join(rootDir, dir.name);
-    const childFiles = await collectMarkdownFiles(childPath);
-    files.push(...childFiles);
+function pageMetaLines(page: ProcessedPage): string[] {
+  const lines: string[] = [];
+  if (page.keywords.length > 0) {
+    lines.push(`Keywords: ${page.keywords.join(', ')}`);
   }
+  if (page.related.length > 0) {
+    lines.push(`Related: ${page.related.map((link) => `[${link.title}](${link.url})`).join(', ')}`);
+  }
+  return lines;
+}
 
-  return files;
+async function fileExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
 }
 
-function toPosixPath(filePath: string): string {
-  return filePath.split(path.sep).join('/');
+// Whether a file of an earlier build is still in the output directory as that build listed it.
+async function isPublished(
+  filePath: string,
+  outputDir: string,
+  published: Set<string>,
+): Promise<boolean> {
+  const relPath = path.relative(outputDir, filePath).split(path.sep).join('/');
+  return published.has(relPath) && (await fileExists(filePath));
 }
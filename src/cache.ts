@@ -0,0 +1,71 @@
+import { createHash } from 'node:crypto';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+const CACHE_VERSION = 8;
+const CACHE_FILE = 'build-cache.json';
+
+export type CachedPage<T> = {
+  hash: string;
+  deps: Record<string, string>;
+  page: T;
+};
+
+export type SourceCache<T> = {
+  configHash: string;
+  commit: string;
+  ref?: string;
+  layoutHash?: string;
+  files: string[];
+  pages: Record<string, CachedPage<T>>;
+};
+
+export type BuildCache<T> = {
+  version: number;
+  sources: Record<string, SourceCache<T>>;
+};
+
+export function hashContent(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+export function hashConfig(value: unknown): string {
+  return hashContent(JSON.stringify({ version: CACHE_VERSION, value }));
+}
+
+export async function loadBuildCache<T>(cacheDir: string): Promise<BuildCache<T>> {
+  const empty: BuildCache<T> = { version: CACHE_VERSION, sources: {} };
+  let raw: string;
+  try {
+    raw = await fs.readFile(path.join(cacheDir, CACHE_FILE), 'utf8');
+  } catch {
+    return empty;
+  }
+
+  try {
+    const parsed = JSON.parse(raw) as BuildCache<T>;
+    return parsed.version === CACHE_VERSION && parsed.sources ? parsed : empty;
+  } catch {
+    return empty;
+  }
+}
+
+export async function saveBuildCache<T>(cacheDir: string, cache: BuildCache<T>): Promise<void> {
+  await fs.mkdir(cacheDir, { recursive: true });
+  await fs.writeFile(path.join(cacheDir, CACHE_FILE), JSON.stringify(cache), 'utf8');
+}
+
+export function createFileHasher(): (filePath: string) => Promise<string | undefined> {
+  const hashes = new Map<string, Promise<string | undefined>>();
+  return (filePath) => {
+    let pending = hashes.get(filePath);
+    if (!pending) {
+      pending = fs
+        .readFile(filePath, 'utf8')
+        .then(hashContent)
+        .catch(() => undefined);
+      hashes.set(filePath, pending);
+    }
+    return pending;
+  };
+}
@@ -0,0 +1,110 @@
+import { parseHeadingLine, slugify, updateFenceState, type FenceState } from './markdown.js';
+import type { ProcessedPage } from './pipeline.js';
+import { estimateTokens, splitBySize, type SizeLimit } from './tokens.js';
+
+export type Chunk = {
+  id: string;
+  relPath: string;
+  url: string;
+  title: string;
+  breadcrumb: string[];
+  content: string;
+  tokens: number;
+};
+
+type Section = {
+  slug: string;
+  breadcrumb: string[];
+  lines: string[];
+};
+
+const CHUNK_LEVELS = new Set([2, 3]);
+
+export function chunkPage(page: ProcessedPage, limit: SizeLimit): Chunk[] {
+  const chunks: Chunk[] = [];
+  for (const section of splitSections(page)) {
+    const blocks = splitBlocks(section.lines);
+    const parts = splitBySize(blocks, limit);
+    parts.forEach((part, index) => {
+      const content = part.join('\n\n');
+      const anchor = section.slug ? `#${section.slug}` : '';
+      const suffix = parts.length > 1 ? `~${index + 1}` : '';
+      chunks.push({
+        id: `${page.relPath}${anchor}${suffix}`,
+        relPath: page.relPath,
+        url: `${page.url}${anchor}`,
+        title: page.title,
+        breadcrumb: section.breadcrumb,
+        content,
+        tokens: estimateTokens(content)
+      });
+    });
+  }
+  return chunks;
+}
+
+function splitSections(page: ProcessedPage): Section[] {
+  const sections: Section[] = [];
+  let current: Section = { slug: '', breadcrumb: [page.title], lines: [] };
+  let h2: string | undefined;
+  let state: FenceState = { inFence: false, fenceMarker: '' };
+  let nextHeading = 0;
+
+  const flush = () => {
+    if (current.lines.some((line) => line.trim() && !parseHeadingLine(line))) {
+      sections.push(current);
+    }
+  };
+
+  for (const line of page.content.split('\n')) {
+    const wasInFence = state.inFence;
+    state = updateFenceState(line, state);
+    const heading = wasInFence || state.inFence ? undefined : parseHeadingLine(line);
+    if (heading) {
+      const index = page.headings.findIndex(
+        (entry, position) =>
+          position >= nextHeading && entry.level === heading.level && entry.text === heading.text,
+      );
+      if (index !== -1) {
+        nextHeading = index + 1;
+      }
+      if (CHUNK_LEVELS.has(heading.level)) {
+        flush();
+        const slug = index !== -1 ? page.headings[index].slug : heading.slug || slugify(heading.text);
+        h2 = heading.level === 2 ? heading.text : h2;
+        const breadcrumb =
+          heading.level === 2 || h2 === undefined
+            ? [page.title, heading.text]
+            : [page.title, h2, heading.text];
+        current = { slug, breadcrumb, lines: [] };
+      }
+    }
+    current.lines.push(line);
+  }
+  flush();
+
+  return sections;
+}
+
+function splitBlocks(lines: string[]): string[] {
+  const blocks: string[] = [];
+  let current: string[] = [];
+  let state: FenceState = { inFence: false, fenceMarker: '' };
+
+  for (const line of lines) {
+    state = updateFenceState(line, state);
+    if (!state.inFence && !line.trim()) {
+      if (current.length > 0) {
+        blocks.push(current.join('\n'));
+        current = [];
+      }
+      continue;
+    }
+    current.push(line);
+  }
+  if (current.length > 0) {
+    blocks.push(current.join('\n'));
+  }
+
+  return blocks;
+}
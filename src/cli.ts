@@ -1,6 +1,39 @@
 #!/usr/bin/env node
+import fs from 'node:fs';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
 import { build } from './build.js';
-import { readConfig } from './config.js';
+import { loadConfig, omitUndefined, type BuildConfig, type ConfigInput } from './config.js';
+import { countDiagnostics, formatDiagnostic } from './diagnostics.js';
+import { diffRefs, renderChanges } from './diff.js';
+import { checkLinks } from './links.js';
+import { createIndexLoader, runMcpServer } from './mcp.js';
+import { TOOL_VERSION } from './output.js';
+import { loadSearchIndex, search, SEARCH_INDEX_FILE } from './search.js';
+import { formatTokens } from './tokens.js';
+
+const FLAG_OPTIONS = {
+  config: { type: 'string', short: 'c' },
+  out: { type: 'string' },
+  'base-url': { type: 'string' },
+  repo: { type: 'string' },
+  ref: { type: 'string' },
+  'docs-dir': { type: 'string' },
+  'docs-path': { type: 'string' },
+  versions: { type: 'string' },
+  'no-cache': { type: 'boolean' },
+  offline: { type: 'boolean' },
+  sparse: { type: 'boolean' },
+  'page-mirrors': { type: 'boolean' },
+  changes: { type: 'boolean' },
+  strict: { type: 'boolean' },
+  force: { type: 'boolean' },
+  formats: { type: 'string' },
+  'max-tokens': { type: 'string' },
+  'max-bytes': { type: 'string' }
+} as const;
+
+type FlagValues = ReturnType<typeof parseArgs<{ options: typeof FLAG_OPTIONS }>>['values'];
 
 const args = process.argv.slice(2);
 const command = args[0];
@@ -11,24 +44,253 @@ if (!command || command === 'help' || command === '--help' || command === '-h')
 }
 
 if (command === 'build') {
-  const config = readConfig();
-  build(config)
-    .then((result) => {
-      console.log(`Generated ${result.totalFiles} pages.`);
-      console.log(`Full output: ${result.fullPath}`);
-      console.log(`Index output: ${result.indexPath}`);
-    })
-    .catch((error) => {
-      const message = error instanceof Error ? error.message : String(error);
-      console.error(`Build failed: ${message}`);
-      process.exit(1);
-    });
+  runBuild(args.slice(1)).catch((error) => {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Build failed: ${message}`);
+    process.exit(1);
+  });
+} else if (command === 'check-links') {
+  runCheckLinks(args.slice(1)).catch((error) => {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Link check failed: ${message}`);
+    process.exit(1);
+  });
+} else if (command === 'search') {
+  runSearch(args.slice(1)).catch((error) => {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Search failed: ${message}`);
+    process.exit(1);
+  });
+} else if (command === 'diff') {
+  runDiff(args.slice(1)).catch((error) => {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Diff failed: ${message}`);
+    process.exit(1);
+  });
+} else if (command === 'mcp') {
+  runMcp(args.slice(1)).catch((error) => {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`MCP server failed: ${message}`);
+    process.exit(1);
+  });
 } else {
   console.error(`Unknown command: ${command}`);
   printHelp();
   process.exit(1);
 }
 
+async function runBuild(argv: string[]): Promise<void> {
+  const { configPath, flags } = parseFlags(argv);
+  const config = await loadConfig({ configPath, flags });
+  const result = await build(config);
+
+  for (const diagnostic of result.diagnostics) {
+    if (diagnostic.severity !== 'info') {
+      console.warn(formatDiagnostic(diagnostic));
+    }
+  }
+  const counts = countDiagnostics(result.diagnostics);
+  if (result.diagnostics.length > 0) {
+    const summary = [plural(counts.error, 'error'), plural(counts.warning, 'warning')];
+    console.warn(`Diagnostics: ${summary.join(', ')}, ${counts.info} info (${result.reportPath})`);
+  }
+
+  if (result.failed) {
+    console.error(
+      `Build failed: ${plural(counts.error, 'error')} in strict mode; outputs were not written.`,
+    );
+    process.exitCode = 1;
+    return;
+  }
+
+  if (result.upToDate) {
+    console.log(`Docs unchanged since the last build (${result.totalFiles} pages); outputs not rewritten.`);
+    return;
+  }
+
+  console.log(`Generated ${result.totalFiles} pages (~${formatTokens(result.totalTokens)} tokens).`);
+  for (const source of result.sources) {
+    const status = source.upToDate
+      ? 'unchanged'
+      : `${source.processedFiles} of ${source.totalFiles} pages processed`;
+    const tokens = formatTokens(source.totalTokens);
+    console.log(`${source.id}: ${source.totalFiles} pages, ~${tokens} tokens (commit ${source.commit}, ${status})`);
+    if (source.fullPath) {
+      console.log(`  Full output: ${source.fullPath}`);
+    }
+    if (source.smallPath) {
+      console.log(`  Small output: ${source.smallPath}`);
+    }
+    if (source.partPaths.length > 0) {
+      const parts = source.partPaths.map((part) => path.basename(part)).join(', ');
+      console.log(`  Split into ${source.partPaths.length} parts: ${parts}`);
+    }
+    console.log(`  Index output: ${source.indexPath}`);
+    if (source.pagesPath) {
+      console.log(`  Pages output: ${source.pagesPath}`);
+    }
+    if (source.chunksPath) {
+      console.log(`  Chunks output: ${source.chunksPath}`);
+    }
+    const largest = [...source.pageTokens].sort((a, b) => b.tokens - a.tokens).slice(0, 5);
+    if (largest.length > 0) {
+      console.log('  Largest pages:');
+      for (const page of largest) {
+        console.log(`    ~${formatTokens(page.tokens)} tokens  ${page.relPath}`);
+      }
+    }
+  }
+  console.log(`Top-level index: ${result.indexPath}`);
+  if (result.manifestPath) {
+    console.log(`Manifest: ${result.manifestPath}`);
+  }
+}
+
+async function runCheckLinks(argv: string[]): Promise<void> {
+  const { configPath, flags } = parseFlags(argv);
+  const config = await loadConfig({ configPath, flags });
+  const report = await checkLinks(config);
+
+  for (const link of report.broken) {
+    const location = `${path.relative(process.cwd(), link.filePath)}:${link.line}`;
+    console.log(`${location}: ${link.reason} (${link.destination})`);
+  }
+  console.log(
+    `Checked ${report.totalLinks} internal links in ${report.totalPages} pages: ${report.broken.length} broken.`,
+  );
+  if (report.broken.length > 0) {
+    process.exitCode = 1;
+  }
+}
+
+async function runDiff(argv: string[]): Promise<void> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    options: { ...FLAG_OPTIONS, json: { type: 'boolean' } },
+    allowPositionals: true
+  });
+  if (positionals.length !== 2) {
+    throw new Error('Usage: craft-llms diff <refA> <refB> [options]');
+  }
+
+  const { configPath, flags } = readFlags(values);
+  const config = await loadConfig({ configPath, flags });
+  const diffs = await diffRefs(config, positionals[0], positionals[1]);
+  if (values.json) {
+    console.log(JSON.stringify(diffs, null, 2));
+    return;
+  }
+  process.stdout.write(renderChanges(diffs));
+}
+
+async function runMcp(argv: string[]): Promise<void> {
+  const { configPath, flags } = parseFlags(argv);
+  const config = await loadConfig({ configPath, flags });
+  const indexPath = await ensureSearchIndex(config);
+  await runMcpServer(createIndexLoader(indexPath), TOOL_VERSION);
+}
+
+async function ensureSearchIndex(config: BuildConfig): Promise<string> {
+  const indexPath = path.resolve(config.outputDir, SEARCH_INDEX_FILE);
+  if (!fs.existsSync(indexPath)) {
+    console.error(`No search index at ${indexPath}; building it first.`);
+    await build({ ...config, formats: [...new Set([...config.formats, 'search' as const])] });
+  }
+  return indexPath;
+}
+
+async function runSearch(argv: string[]): Promise<void> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    options: {
+      ...FLAG_OPTIONS,
+      group: { type: 'string', short: 'g' },
+      source: { type: 'string', short: 's' },
+      limit: { type: 'string', short: 'n' },
+      json: { type: 'boolean' }
+    },
+    allowPositionals: true
+  });
+  const query = positionals.join(' ').trim();
+  if (!query) {
+    throw new Error('Usage: craft-llms search "<query>" [options]');
+  }
+
+  const { configPath, flags } = readFlags(values);
+  const config = await loadConfig({ configPath, flags });
+  const index = await loadSearchIndex(await ensureSearchIndex(config));
+  const results = search(index, query, {
+    group: values.group,
+    source: values.source,
+    limit: parseNumber(values.limit, '--limit') ?? 10,
+    highlight: !values.json && process.stdout.isTTY ? (text) => `\x1b[1m${text}\x1b[22m` : undefined
+  });
+
+  if (values.json) {
+    console.log(JSON.stringify({ query, sources: index.sources, results }, null, 2));
+    return;
+  }
+
+  if (results.length === 0) {
+    console.log(`No matches for "${query}".`);
+    return;
+  }
+  for (const [position, result] of results.entries()) {
+    const group = result.group ? ` — ${result.group}` : '';
+    console.log(`${position + 1}. ${result.title} (${result.source}${group})`);
+    console.log(`   ${result.url}`);
+    console.log(`   ${result.snippet}`);
+  }
+}
+
+function parseFlags(argv: string[]): { configPath?: string; flags: ConfigInput } {
+  return readFlags(parseArgs({ args: argv, options: FLAG_OPTIONS }).values);
+}
+
+function readFlags(values: FlagValues): { configPath?: string; flags: ConfigInput } {
+  const flags: ConfigInput = omitUndefined({
+    outputDir: values.out,
+    baseUrl: values['base-url'],
+    docsRepo: values.repo,
+    docsRef: values.ref,
+    docsDir: values['docs-dir'],
+    docsPath: values['docs-path'],
+    versions: values.versions?.split(',').map((item) => item.trim()).filter(Boolean),
+    cache: values['no-cache'] ? false : undefined,
+    offline: values.offline,
+    sparseCheckout: values.sparse,
+    pageMirrors: values['page-mirrors'],
+    changes: values.changes,
+    strict: values.strict,
+    force: values.force,
+    formats: values.formats?.split(',').map((item) => item.trim()).filter(Boolean) as ConfigInput['formats'],
+    split:
+      values['max-tokens'] || values['max-bytes']
+        ? omitUndefined({
+            maxTokens: parseNumber(values['max-tokens'], '--max-tokens'),
+            maxBytes: parseNumber(values['max-bytes'], '--max-bytes')
+          })
+        : undefined
+  });
+
+  return { configPath: values.config, flags };
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+function parseNumber(value: string | undefined, flag: string): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error(`${flag} must be a positive integer, got "${value}"`);
+  }
+  return parsed;
+}
+
 function printHelp(): void {
-  console.log(`craft-llms build\n\nGenerates public/llms-full.txt and public/llms.txt from Craft CMS docs.\n\nEnvironment variables:\n  OUTPUT_DIR   Output directory (default: public)\n  BASE_URL     Base docs URL (default: https://craftcms.com/docs/5.x/)\n  DOCS_REPO    Docs repository (default: https://github.com/craftcms/docs)\n  DOCS_DIR     Local clone directory (default: .cache/craftcms-docs)`);
+  console.log(`craft-llms build [options]\n  Generates public/<source>/llms-full.txt, public/<source>/llms.txt and a top-level public/llms.txt from Craft CMS docs, and writes public/build-report.json with the problems found and public/manifest.json with file sizes and SHA-256 hashes. Outputs are staged and moved in once complete; files in the output directory that craft-llms did not write are left alone.\n\ncraft-llms check-links [options]\n  Runs the same pipeline and reports internal links to missing pages or anchors. Exits non-zero when any are broken.\n\ncraft-llms search "<query>" [options]\n  Searches the built pages (search-index.json in the output directory) and prints the best matches.\n  -g, --group <name>   Only pages whose llms.txt group contains name\n  -s, --source <id>    Only pages from one source\n  -n, --limit <n>      Number of results (default: 10)\n  --json               Print results as JSON\n\ncraft-llms diff <refA> <refB> [options]\n  Builds the docs at two refs of the docs clone and lists pages added, removed, renamed and modified, with changed headings.\n  --json               Print the differences as JSON\n\ncraft-llms mcp [options]\n  Runs an MCP server over stdio with list_sections, get_page and search_docs tools, served from search-index.json.\n\nOptions:\n  -c, --config <file>  Config file (default: craft-llms.config.json or craft-llms.config.mjs in the cwd)\n  --out <dir>          Output directory\n  --base-url <url>     Base docs URL, {version} is replaced\n  --repo <url>         Docs repository\n  --ref <ref>          Branch, tag or full commit SHA of the docs repository to build\n  --docs-dir <dir>     Local clone directory\n  --docs-path <path>   Build from a local directory or .tar.gz archive instead of cloning\n  --versions <list>    Comma-separated docs versions\n  --no-cache           Reprocess every page instead of reusing the build cache\n  --offline            Use the existing clone as-is without fetching\n  --sparse             Check out only the configured docs subpaths\n  --page-mirrors       Write a markdown mirror of every page next to llms.txt\n  --changes            Write llms-changes.txt with the changes since the previous build\n  --strict             Fail the build, without touching the output directory, when any error is reported\n  --force              Write into an output directory that has files but no manifest.json\n  --formats <list>     Comma-separated outputs next to llms.txt: text (llms-full.txt), small (llms-small.txt), jsonl (pages.jsonl), chunks (chunks.jsonl), search (search-index.json)\n  --max-tokens <n>     Split llms-full.txt into parts of at most n estimated tokens\n  --max-bytes <n>      Split llms-full.txt into parts of at most n bytes\n\nEnvironment variables:\n  OUTPUT_DIR     Output directory (default: public)\n  DOCS_VERSIONS  Comma-separated docs versions (default: 5.x)\n  BASE_URL       Base docs URL, {version} is replaced (default: https://craftcms.com/docs/{version}/)\n  DOCS_REPO      Docs repository (default: https://github.com/craftcms/docs)\n  DOCS_REF       Branch, tag or full commit SHA of the docs repository (default: the default branch)\n  DOCS_DIR       Local clone directory (default: .cache/craftcms-docs)\n  DOCS_PATH      Local directory or .tar.gz archive to build instead of cloning\n  DOCS_SOURCES   JSON array of additional doc sets ({ id, title, repo, subpath, baseUrl, dir })\n\nPrecedence: flags > environment variables > config file > defaults.`);
 }
@@ -0,0 +1,74 @@
+export type ComponentRule = 'drop' | 'inner' | { template: string };
+
+export type ComponentRules = Record<string, ComponentRule>;
+
+const PLACEHOLDER_RE = /\{([^}]+)\}/g;
+const LEADING_SEPARATOR_RE = /^[\s,;:|/–—-]+/;
+const TEMPLATE_PART_RE = /\[([^\]]*)\]|([^[]+)/g;
+const COMPONENT_NAME_RE = /^(?:[A-Z][\w-]*|[a-z][a-z0-9]*(?:-[a-z0-9]+)+)$/;
+
+export const DEFAULT_COMPONENTS: ComponentRules = {
+  badge: { template: '{text|label|title}' },
+  cloud: { template: 'Cloud' },
+  journey: { template: 'Journey[: {path|label|text}]' },
+  see: { template: '[{label|text|title}][ - {description|desc}][ - {path|url}]' },
+  since: { template: 'Since[ {ver|version}][: {feature|text|label}]' },
+  todo: { template: 'TODO[: {notes|text|label}]' },
+  block: 'inner',
+  browsershot: 'inner',
+  codeplaceholder: 'inner',
+  column: 'inner',
+  columns: 'inner',
+  tab: 'inner',
+  tabs: 'inner'
+};
+
+export function componentKey(name: string): string {
+  return name.toLowerCase().replace(/-/g, '');
+}
+
+export function isComponentName(name: string): boolean {
+  return COMPONENT_NAME_RE.test(name);
+}
+
+export function componentRules(overrides: ComponentRules = {}): ComponentRules {
+  const rules = { ...DEFAULT_COMPONENTS };
+  for (const [name, rule] of Object.entries(overrides)) {
+    rules[componentKey(name)] = rule;
+  }
+  return rules;
+}
+
+export function renderTemplate(template: string, attrs: Record<string, string>): string {
+  let output = '';
+  for (const [, group, text] of template.matchAll(TEMPLATE_PART_RE)) {
+    if (group === undefined) {
+      output += fillPlaceholders(text, attrs).text;
+      continue;
+    }
+    // A group that starts the output drops its leading separator, so `[{a}][ - {b}]` joins like a list.
+    const filled = fillPlaceholders(output ? group : group.replace(LEADING_SEPARATOR_RE, ''), attrs);
+    if (!filled.missing) {
+      output += filled.text;
+    }
+  }
+  return output;
+}
+
+function fillPlaceholders(
+  text: string,
+  attrs: Record<string, string>,
+): { text: string; missing: boolean } {
+  let missing = false;
+  const filled = text.replace(PLACEHOLDER_RE, (_, names: string) => {
+    const value = names
+      .split('|')
+      .map((name) => attrs[name.trim().toLowerCase()])
+      .find(Boolean);
+    if (!value) {
+      missing = true;
+    }
+    return value ?? '';
+  });
+  return { text: filled, missing };
+}
@@ -1,22 +1,559 @@
+import { createHash } from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { validate, type Schema } from './schema.js';
+import type { ComponentRules } from './components.js';
+import type { ContainerModes, ImageMode } from './markdown.js';
+import type { SizeLimit } from './tokens.js';
+
+export type OutputFormat = 'text' | 'small' | 'jsonl' | 'chunks' | 'search';
+
+export type SmallOutput = {
+  include: string[];
+  exclude: string[];
+  maxTokens: number;
+};
+
+export type GroupLabel = {
+  title?: string;
+  description?: string;
+};
+
+export type IndexHeader = {
+  title: string;
+  summary?: string;
+  notes: string[];
+};
+
+export type FileTitles = {
+  full: string;
+  index: string;
+  changes: string;
+};
+
+export type DocSource = {
+  id: string;
+  title: string;
+  repo: string;
+  repoDir: string;
+  ref?: string;
+  local?: boolean;
+  archive?: string;
+  commit?: string;
+  timestamp?: string;
+  subpaths: string[];
+  baseUrl: string;
+  siteDir?: string;
+  sidebarFile?: string;
+  sidebarKey?: string;
+  summary?: string;
+  notes: string[];
+  groups: Record<string, GroupLabel>;
+  fileTitles: FileTitles;
+};
+
 export type BuildConfig = {
   outputDir: string;
+  cache: boolean;
+  cacheDir: string;
+  offline: boolean;
+  sparseCheckout: boolean;
+  pageMirrors: boolean;
+  mirrorBaseUrl?: string;
+  changes: boolean;
+  strict: boolean;
+  force: boolean;
+  formats: OutputFormat[];
+  split: SizeLimit;
+  chunks: SizeLimit;
+  small: SmallOutput;
+  optional: string[];
+  containers: ContainerModes;
+  components: ComponentRules;
+  images: ImageMode;
+  index: IndexHeader;
+  sources: DocSource[];
+};
+
+export type SourceInput = {
+  id: string;
+  title?: string;
+  repo?: string;
+  ref?: string;
+  dir?: string;
+  path?: string;
+  commit?: string;
+  timestamp?: string;
+  subpath?: string | string[];
   baseUrl: string;
-  docsRepo: string;
-  docsDir: string;
+  siteDir?: string;
+  sidebar?: string;
+  sidebarKey?: string;
+  summary?: string;
+  notes?: string[];
+  groups?: Record<string, string | GroupLabel>;
+  fileTitles?: Partial<FileTitles>;
+};
+
+export type ConfigInput = {
+  outputDir?: string;
+  cache?: boolean;
+  cacheDir?: string;
+  offline?: boolean;
+  sparseCheckout?: boolean;
+  pageMirrors?: boolean;
+  mirrorBaseUrl?: string;
+  changes?: boolean;
+  strict?: boolean;
+  force?: boolean;
+  formats?: OutputFormat[];
+  split?: SizeLimit;
+  chunks?: SizeLimit;
+  small?: Partial<SmallOutput>;
+  optional?: string[];
+  containers?: ContainerModes;
+  components?: ComponentRules;
+  images?: ImageMode;
+  index?: Partial<IndexHeader>;
+  versionTitle?: string;
+  summary?: string;
+  notes?: string[];
+  groups?: Record<string, string | GroupLabel>;
+  fileTitles?: Partial<FileTitles>;
+  baseUrl?: string;
+  docsRepo?: string;
+  docsRef?: string;
+  docsDir?: string;
+  docsPath?: string;
+  docsCommit?: string;
+  docsTimestamp?: string;
+  versions?: string[];
+  sources?: SourceInput[];
 };
 
-const DEFAULTS: BuildConfig = {
+export type LoadConfigOptions = {
+  configPath?: string;
+  flags?: ConfigInput;
+  env?: NodeJS.ProcessEnv;
+  cwd?: string;
+};
+
+export const CONFIG_FILE_NAMES = ['craft-llms.config.json', 'craft-llms.config.mjs'];
+
+const NOTES_SCHEMA: Schema = { type: 'array', items: { type: 'string', nonEmpty: true } };
+
+const GROUPS_SCHEMA: Schema = {
+  type: 'record',
+  values: {
+    type: 'oneOf',
+    options: [
+      { type: 'string', nonEmpty: true },
+      {
+        type: 'object',
+        properties: {
+          title: { type: 'string', nonEmpty: true },
+          description: { type: 'string', nonEmpty: true }
+        }
+      }
+    ]
+  }
+};
+
+const FILE_TITLES_SCHEMA: Schema = {
+  type: 'object',
+  properties: {
+    full: { type: 'string', nonEmpty: true },
+    index: { type: 'string', nonEmpty: true },
+    changes: { type: 'string', nonEmpty: true }
+  }
+};
+
+const SOURCE_SCHEMA: Schema = {
+  type: 'object',
+  required: ['id', 'baseUrl'],
+  properties: {
+    id: { type: 'string', nonEmpty: true },
+    title: { type: 'string', nonEmpty: true },
+    repo: { type: 'string', nonEmpty: true },
+    ref: { type: 'string', nonEmpty: true },
+    dir: { type: 'string', nonEmpty: true },
+    path: { type: 'string', nonEmpty: true },
+    commit: { type: 'string', nonEmpty: true },
+    timestamp: { type: 'string', nonEmpty: true },
+    subpath: { type: 'oneOf', options: [{ type: 'string' }, { type: 'array', items: { type: 'string' } }] },
+    baseUrl: { type: 'string', nonEmpty: true },
+    siteDir: { type: 'string', nonEmpty: true },
+    sidebar: { type: 'string', nonEmpty: true },
+    sidebarKey: { type: 'string', nonEmpty: true },
+    summary: { type: 'string' },
+    notes: NOTES_SCHEMA,
+    groups: GROUPS_SCHEMA,
+    fileTitles: FILE_TITLES_SCHEMA
+  }
+};
+
+const SIZE_LIMIT_SCHEMA: Schema = {
+  type: 'object',
+  properties: {
+    maxTokens: { type: 'number', integer: true, min: 1 },
+    maxBytes: { type: 'number', integer: true, min: 1 }
+  }
+};
+
+export const CONFIG_SCHEMA: Schema = {
+  type: 'object',
+  properties: {
+    outputDir: { type: 'string', nonEmpty: true },
+    cache: { type: 'boolean' },
+    cacheDir: { type: 'string', nonEmpty: true },
+    offline: { type: 'boolean' },
+    sparseCheckout: { type: 'boolean' },
+    pageMirrors: { type: 'boolean' },
+    mirrorBaseUrl: { type: 'string', nonEmpty: true },
+    changes: { type: 'boolean' },
+    strict: { type: 'boolean' },
+    force: { type: 'boolean' },
+    formats: { type: 'array', items: { type: 'string', values: ['text', 'small', 'jsonl', 'chunks', 'search'] } },
+    split: SIZE_LIMIT_SCHEMA,
+    chunks: SIZE_LIMIT_SCHEMA,
+    small: {
+      type: 'object',
+      properties: {
+        include: { type: 'array', items: { type: 'string', nonEmpty: true } },
+        exclude: { type: 'array', items: { type: 'string', nonEmpty: true } },
+        maxTokens: { type: 'number', integer: true, min: 1 }
+      }
+    },
+    optional: { type: 'array', items: { type: 'string', nonEmpty: true } },
+    containers: { type: 'record', values: { type: 'string', values: ['keep', 'unwrap', 'drop'] } },
+    components: {
+      type: 'record',
+      values: {
+        type: 'oneOf',
+        options: [
+          { type: 'string', values: ['drop', 'inner'] },
+          { type: 'object', required: ['template'], properties: { template: { type: 'string' } } }
+        ]
+      }
+    },
+    images: { type: 'string', values: ['keep', 'text'] },
+    index: {
+      type: 'object',
+      properties: {
+        title: { type: 'string', nonEmpty: true },
+        summary: { type: 'string' },
+        notes: NOTES_SCHEMA
+      }
+    },
+    versionTitle: { type: 'string', nonEmpty: true },
+    summary: { type: 'string' },
+    notes: NOTES_SCHEMA,
+    groups: GROUPS_SCHEMA,
+    fileTitles: FILE_TITLES_SCHEMA,
+    baseUrl: { type: 'string', nonEmpty: true },
+    docsRepo: { type: 'string', nonEmpty: true },
+    docsRef: { type: 'string', nonEmpty: true },
+    docsDir: { type: 'string', nonEmpty: true },
+    docsPath: { type: 'string', nonEmpty: true },
+    docsCommit: { type: 'string', nonEmpty: true },
+    docsTimestamp: { type: 'string', nonEmpty: true },
+    versions: { type: 'array', items: { type: 'string', nonEmpty: true } },
+    sources: { type: 'array', items: SOURCE_SCHEMA }
+  }
+};
+
+const SOURCE_ID_RE = /^[A-Za-z0-9._-]+(\/[A-Za-z0-9._-]+)*$/;
+
+const DEFAULTS = {
   outputDir: 'public',
-  baseUrl: 'https://craftcms.com/docs/5.x/',
+  cacheDir: '.cache/craft-llms',
+  baseUrl: 'https://craftcms.com/docs/{version}/',
   docsRepo: 'https://github.com/craftcms/docs',
-  docsDir: '.cache/craftcms-docs'
+  docsDir: '.cache/craftcms-docs',
+  siteDir: 'docs',
+  sidebarFile: 'docs/.vuepress/sets/craft-cms.js',
+  indexTitle: 'Craft CMS Documentation',
+  versionTitle: 'Craft CMS {version}',
+  summary: '{title} documentation covering installation, configuration, templating, and extension points.',
+  fileTitles: {
+    full: '{title} Documentation',
+    index: '{title} Documentation Index',
+    changes: '{title} Documentation Changes'
+  },
+  chunkTokens: 500,
+  smallTokens: 50000,
+  sourcesDir: '.cache/sources',
+  versions: ['5.x']
 };
 
-export function readConfig(env: NodeJS.ProcessEnv = process.env): BuildConfig {
+export async function loadConfig(options: LoadConfigOptions = {}): Promise<BuildConfig> {
+  const cwd = options.cwd ?? process.cwd();
+  const configPath = options.configPath
+    ? path.resolve(cwd, options.configPath)
+    : findConfigFile(cwd);
+
+  const fileInput = configPath ? await readConfigFile(configPath) : {};
+  const envInput = readEnvConfig(options.env ?? process.env);
+  const flagInput = options.flags ?? {};
+  assertValid(flagInput, 'command line flags');
+
+  return resolveConfig({ ...fileInput, ...envInput, ...flagInput });
+}
+
+export function findConfigFile(cwd: string): string | undefined {
+  for (const name of CONFIG_FILE_NAMES) {
+    const candidate = path.join(cwd, name);
+    if (fs.existsSync(candidate)) {
+      return candidate;
+    }
+  }
+  return undefined;
+}
+
+export async function readConfigFile(filePath: string): Promise<ConfigInput> {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Config file not found: ${filePath}`);
+  }
+
+  let raw: unknown;
+  try {
+    if (filePath.endsWith('.json')) {
+      raw = JSON.parse(await fs.promises.readFile(filePath, 'utf8'));
+    } else {
+      const module = await import(pathToFileURL(filePath).href);
+      raw = module.default ?? module.config;
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Could not read config file ${filePath}: ${message}`);
+  }
+
+  const label = path.basename(filePath);
+  assertValid(raw, label);
+
+  const input = raw as ConfigInput;
+  const configDir = path.dirname(filePath);
+  return omitUndefined({
+    ...input,
+    outputDir: input.outputDir && path.resolve(configDir, input.outputDir),
+    cacheDir: input.cacheDir && path.resolve(configDir, input.cacheDir),
+    docsDir: input.docsDir && path.resolve(configDir, input.docsDir),
+    docsPath: input.docsPath && path.resolve(configDir, input.docsPath),
+    sources: input.sources?.map((source) =>
+      omitUndefined({
+        ...source,
+        dir: source.dir && path.resolve(configDir, source.dir),
+        path: source.path && path.resolve(configDir, source.path)
+      }),
+    )
+  });
+}
+
+export function readEnvConfig(env: NodeJS.ProcessEnv): ConfigInput {
+  const input: ConfigInput = {
+    outputDir: env.OUTPUT_DIR,
+    baseUrl: env.BASE_URL,
+    docsRepo: env.DOCS_REPO,
+    docsRef: env.DOCS_REF,
+    docsDir: env.DOCS_DIR,
+    docsPath: env.DOCS_PATH,
+    versions: env.DOCS_VERSIONS === undefined ? undefined : parseList(env.DOCS_VERSIONS)
+  };
+
+  if (env.DOCS_SOURCES) {
+    try {
+      input.sources = JSON.parse(env.DOCS_SOURCES);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`DOCS_SOURCES is not valid JSON: ${message}`);
+    }
+  }
+
+  const defined = omitUndefined(input);
+  assertValid(defined, 'environment variables');
+  return defined;
+}
+
+export function resolveConfig(input: ConfigInput): BuildConfig {
+  const baseUrl = input.baseUrl ?? DEFAULTS.baseUrl;
+  const docsRepo = input.docsRepo ?? DEFAULTS.docsRepo;
+  const docsDir = input.docsDir ?? DEFAULTS.docsDir;
+  const versions = input.versions ?? DEFAULTS.versions;
+  const cacheDir = input.cacheDir ?? DEFAULTS.cacheDir;
+  const docsOrigin = omitUndefined({
+    repoDir: docsDir,
+    ref: input.docsRef,
+    ...(input.docsPath ? localOrigin(input.docsPath, cacheDir) : {}),
+    commit: input.docsCommit,
+    timestamp: input.docsTimestamp
+  });
+
+  const versionTitle = input.versionTitle ?? DEFAULTS.versionTitle;
+  const sources: DocSource[] = versions.map((version) => ({
+    id: version,
+    title: versionTitle.replaceAll('{version}', version),
+    repo: docsRepo,
+    ...docsOrigin,
+    subpaths: [`docs/docs/${version}`, `docs/${version}`],
+    baseUrl: baseUrl.replaceAll('{version}', version),
+    siteDir: DEFAULTS.siteDir,
+    sidebarFile: DEFAULTS.sidebarFile,
+    sidebarKey: version,
+    summary: input.summary,
+    notes: input.notes ?? [],
+    groups: {},
+    fileTitles: { ...DEFAULTS.fileTitles, ...input.fileTitles }
+  }));
+
+  for (const source of input.sources ?? []) {
+    const repo = source.repo ?? docsRepo;
+    const defaultDir = repo === docsRepo ? docsDir : `${DEFAULTS.sourcesDir}/${source.id}`;
+    const sharesDocs = repo === docsRepo && !source.path && !source.dir && !source.ref;
+    const origin = source.path
+      ? localOrigin(source.path, cacheDir)
+      : sharesDocs
+        ? docsOrigin
+        : {
+            repoDir: source.dir ?? defaultDir,
+            ref: source.ref ?? (repo === docsRepo ? input.docsRef : undefined)
+          };
+    const subpath = source.subpath ?? '';
+    sources.push({
+      id: source.id,
+      title: source.title ?? source.id,
+      repo,
+      ...omitUndefined({
+        ...origin,
+        commit: source.commit ?? (sharesDocs ? input.docsCommit : undefined),
+        timestamp: source.timestamp ?? (sharesDocs ? input.docsTimestamp : undefined)
+      }),
+      subpaths: Array.isArray(subpath) ? subpath : [subpath],
+      baseUrl: source.baseUrl,
+      siteDir: source.siteDir,
+      sidebarFile: source.sidebar,
+      sidebarKey: source.sidebarKey,
+      summary: source.summary ?? input.summary,
+      notes: source.notes ?? input.notes ?? [],
+      groups: groupLabels(source.groups),
+      fileTitles: { ...DEFAULTS.fileTitles, ...input.fileTitles, ...source.fileTitles }
+    });
+  }
+
+  const sharedGroups = groupLabels(input.groups);
+  for (const source of sources) {
+    const fill = (text: string) =>
+      text.replaceAll('{title}', source.title).replaceAll('{id}', source.id);
+    source.summary = fill(source.summary ?? DEFAULTS.summary) || undefined;
+    source.notes = source.notes.map(fill);
+    source.fileTitles = {
+      full: fill(source.fileTitles.full),
+      index: fill(source.fileTitles.index),
+      changes: fill(source.fileTitles.changes)
+    };
+    source.groups = { ...sharedGroups, ...source.groups };
+  }
+
+  if (sources.length === 0) {
+    throw new Error('No docs sources configured. Set versions or sources.');
+  }
+
+  const seen = new Set<string>();
+  for (const source of sources) {
+    if (!SOURCE_ID_RE.test(source.id) || source.id.split('/').includes('..')) {
+      throw new Error(`Invalid docs source id "${source.id}": use letters, digits, ".", "_", "-" and "/".`);
+    }
+    if (seen.has(source.id)) {
+      throw new Error(`Duplicate docs source id: ${source.id}`);
+    }
+    seen.add(source.id);
+  }
+
+  const refs = new Map<string, string | undefined>();
+  for (const source of sources) {
+    const repoDir = path.resolve(source.repoDir);
+    if (refs.has(repoDir) && refs.get(repoDir) !== source.ref) {
+      throw new Error(`Docs sources sharing ${source.repoDir} must use the same ref (see "${source.id}").`);
+    }
+    refs.set(repoDir, source.ref);
+  }
+
   return {
-    outputDir: env.OUTPUT_DIR ?? DEFAULTS.outputDir,
-    baseUrl: env.BASE_URL ?? DEFAULTS.baseUrl,
-    docsRepo: env.DOCS_REPO ?? DEFAULTS.docsRepo,
-    docsDir: env.DOCS_DIR ?? DEFAULTS.docsDir
+    outputDir: input.outputDir ?? DEFAULTS.outputDir,
+    cache: input.cache ?? true,
+    cacheDir: input.cacheDir ?? DEFAULTS.cacheDir,
+    offline: input.offline ?? false,
+    sparseCheckout: input.sparseCheckout ?? false,
+    pageMirrors: input.pageMirrors ?? false,
+    mirrorBaseUrl: input.mirrorBaseUrl,
+    changes: input.changes ?? false,
+    strict: input.strict ?? false,
+    force: input.force ?? false,
+    formats: input.formats ?? ['text', 'search'],
+    split: input.split ?? {},
+    chunks: input.chunks ?? { maxTokens: DEFAULTS.chunkTokens },
+    small: {
+      include: input.small?.include ?? ['**'],
+      exclude: input.small?.exclude ?? [],
+      maxTokens: input.small?.maxTokens ?? DEFAULTS.smallTokens
+    },
+    optional: input.optional ?? [],
+    containers: input.containers ?? {},
+    components: input.components ?? {},
+    images: input.images ?? 'keep',
+    index: {
+      title: input.index?.title ?? DEFAULTS.indexTitle,
+      summary: input.index?.summary || undefined,
+      notes: input.index?.notes ?? []
+    },
+    sources
   };
 }
+
+function localOrigin(localPath: string, cacheDir: string): Pick<DocSource, 'repoDir' | 'local' | 'archive'> {
+  if (/\.(tar\.gz|tgz)$/i.test(localPath)) {
+    const name = path.basename(localPath).replace(/\.(tar\.gz|tgz)$/i, '');
+    const key = createHash('sha256').update(path.resolve(localPath)).digest('hex').slice(0, 8);
+    return { repoDir: path.join(cacheDir, 'archives', `${name}-${key}`), local: true, archive: localPath };
+  }
+  return { repoDir: localPath, local: true };
+}
+
+function groupLabels(groups: Record<string, string | GroupLabel> = {}): Record<string, GroupLabel> {
+  return Object.fromEntries(
+    Object.entries(groups).map(([key, label]) => [key, typeof label === 'string' ? { title: label } : label]),
+  );
+}
+
+function assertValid(value: unknown, label: string): void {
+  const errors = validate(value, CONFIG_SCHEMA);
+  if (errors.length > 0) {
+    throw new Error(`Invalid configuration in ${label}:\n${errors.map((error) => `  - ${error}`).join('\n')}`);
+  }
+}
+
+// The settings that shape the outputs, without where they go and how the build runs.
+export function outputSettings(config: BuildConfig): Record<string, unknown> {
+  return {
+    ...config,
+    outputDir: undefined,
+    cache: undefined,
+    cacheDir: undefined,
+    offline: undefined,
+    sparseCheckout: undefined,
+    strict: undefined,
+    force: undefined,
+    sources: config.sources.map((source) => ({ ...source, repoDir: undefined }))
+  };
+}
+
+export function omitUndefined<T extends object>(value: T): T {
+  return Object.fromEntries(Object.entries(value).filter(([, item]) => item !== undefined)) as T;
+}
+
+function parseList(value: string): string[] {
+  return value
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
@@ -0,0 +1,54 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+export type Severity = 'error' | 'warning' | 'info';
+
+export type PageDiagnostic = {
+  severity: Severity;
+  code: string;
+  message: string;
+  file?: string;
+  line?: number;
+};
+
+export type Diagnostic = {
+  severity: Severity;
+  code: string;
+  message: string;
+  sourceId: string;
+  file: string;
+  line?: number;
+};
+
+export type BuildReport = {
+  summary: Record<Severity, number>;
+  diagnostics: Diagnostic[];
+};
+
+export const BUILD_REPORT_FILE = 'build-report.json';
+
+const SEVERITIES: Severity[] = ['error', 'warning', 'info'];
+
+export function countDiagnostics(diagnostics: Diagnostic[]): Record<Severity, number> {
+  const counts = { error: 0, warning: 0, info: 0 };
+  for (const diagnostic of diagnostics) {
+    counts[diagnostic.severity] += 1;
+  }
+  return counts;
+}
+
+export function formatDiagnostic(diagnostic: Diagnostic): string {
+  const line = diagnostic.line ? `:${diagnostic.line}` : '';
+  return `${diagnostic.sourceId}/${diagnostic.file}${line}: ${diagnostic.severity} ${diagnostic.code}: ${diagnostic.message}`;
+}
+
+export async function writeBuildReport(outputDir: string, diagnostics: Diagnostic[]): Promise<string> {
+  const sorted = [...diagnostics].sort(
+    (a, b) => SEVERITIES.indexOf(a.severity) - SEVERITIES.indexOf(b.severity),
+  );
+  const report: BuildReport = { summary: countDiagnostics(diagnostics), diagnostics: sorted };
+  const reportPath = path.join(outputDir, BUILD_REPORT_FILE);
+  await fs.mkdir(outputDir, { recursive: true });
+  await fs.writeFile(reportPath, `${JSON.stringify(report, null, 2)}\n`, 'utf8');
+  return reportPath;
+}
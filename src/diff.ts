@@ -0,0 +1,203 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { hashContent } from './cache.js';
+import type { BuildConfig } from './config.js';
+import { exportRef } from './git.js';
+import { loadSources, type ProcessedPage } from './pipeline.js';
+
+export type PageSnapshot = {
+  relPath: string;
+  title: string;
+  url: string;
+  hash: string;
+  headings: string[];
+};
+
+export type ModifiedPage = {
+  relPath: string;
+  previousPath?: string;
+  title: string;
+  url: string;
+  headingsAdded: string[];
+  headingsRemoved: string[];
+};
+
+export type PageDiff = {
+  added: PageSnapshot[];
+  removed: PageSnapshot[];
+  renamed: ModifiedPage[];
+  modified: ModifiedPage[];
+};
+
+export type SourceDiff = {
+  id: string;
+  title: string;
+  heading: string;
+  from: string;
+  to: string;
+  diff: PageDiff;
+};
+
+export function toSnapshot(page: ProcessedPage): PageSnapshot {
+  return {
+    relPath: page.relPath,
+    title: page.title,
+    url: page.url,
+    hash: hashContent(page.content),
+    headings: page.headings.map((heading) => `${'#'.repeat(heading.level)} ${heading.text}`)
+  };
+}
+
+export function diffPages(before: PageSnapshot[], after: PageSnapshot[]): PageDiff {
+  const beforeByPath = new Map(before.map((page) => [page.relPath, page]));
+  const afterPaths = new Set(after.map((page) => page.relPath));
+
+  const modified: ModifiedPage[] = [];
+  const added: PageSnapshot[] = [];
+  for (const page of after) {
+    const previous = beforeByPath.get(page.relPath);
+    if (!previous) {
+      added.push(page);
+    } else if (previous.hash !== page.hash) {
+      modified.push(changeOf(previous, page));
+    }
+  }
+  let removed = before.filter((page) => !afterPaths.has(page.relPath));
+
+  const renamed: ModifiedPage[] = [];
+  const matchers = [
+    (a: PageSnapshot, b: PageSnapshot) => a.hash === b.hash,
+    (a: PageSnapshot, b: PageSnapshot) => a.title === b.title
+  ];
+  for (const matches of matchers) {
+    for (const page of [...added]) {
+      const candidates = removed.filter((previous) => matches(previous, page));
+      if (candidates.length !== 1) {
+        continue;
+      }
+      renamed.push({ ...changeOf(candidates[0], page), previousPath: candidates[0].relPath });
+      added.splice(added.indexOf(page), 1);
+      removed = removed.filter((previous) => previous !== candidates[0]);
+    }
+  }
+
+  return { added, removed, renamed, modified };
+}
+
+export function renderChanges(diffs: SourceDiff[]): string {
+  const lines: string[] = [];
+  for (const { heading, from, to, diff } of diffs) {
+    lines.push(`# ${heading}`, `From ${from} to ${to}`, '');
+    if (isEmpty(diff)) {
+      lines.push('No page changes.', '');
+      continue;
+    }
+    if (diff.added.length > 0) {
+      lines.push('## Added', ...diff.added.map((page) => `- [${page.title}](${page.url})`), '');
+    }
+    if (diff.removed.length > 0) {
+      lines.push('## Removed', ...diff.removed.map((page) => `- ${page.title} (${page.relPath})`), '');
+    }
+    if (diff.renamed.length > 0) {
+      lines.push(
+        '## Renamed',
+        ...diff.renamed.map(
+          (page) => `- ${page.previousPath} → [${page.title}](${page.url})${headingChanges(page)}`,
+        ),
+        '',
+      );
+    }
+    if (diff.modified.length > 0) {
+      lines.push(
+        '## Modified',
+        ...diff.modified.map((page) => `- [${page.title}](${page.url})${headingChanges(page)}`),
+        '',
+      );
+    }
+  }
+  return `${lines.join('\n').trimEnd()}\n`;
+}
+
+export async function diffRefs(
+  config: BuildConfig,
+  refA: string,
+  refB: string,
+): Promise<SourceDiff[]> {
+  const cloned = config.sources.filter((source) => !source.local);
+  if (cloned.length === 0) {
+    throw new Error(
+      'Nothing to diff: every source is a local directory or archive. diff compares refs of a cloned docs repo.',
+    );
+  }
+  const repoDir = path.resolve(cloned[0].repoDir);
+  const sources = cloned.filter((source) => path.resolve(source.repoDir) === repoDir);
+  const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'craft-llms-diff-'));
+
+  try {
+    const snapshots = [];
+    for (const [index, ref] of [refA, refB].entries()) {
+      const targetDir = path.join(tempDir, String(index));
+      const meta = await exportRef(repoDir, ref, targetDir, { offline: config.offline });
+      const loaded = await loadSources(
+        {
+          ...config,
+          sources: sources.map((source) => ({
+            ...source,
+            repoDir: targetDir,
+            local: true,
+            ref: undefined,
+            commit: meta.commit,
+            timestamp: meta.timestamp
+          }))
+        },
+        { version: 0, sources: {} },
+      );
+      snapshots.push({ ref, meta, loaded });
+    }
+
+    const [before, after] = snapshots;
+    return sources.map((source, index) => ({
+      id: source.id,
+      title: source.title,
+      heading: source.fileTitles.changes,
+      from: `${before.ref} (commit ${before.meta.commit})`,
+      to: `${after.ref} (commit ${after.meta.commit})`,
+      diff: diffPages(
+        before.loaded[index].pages.map(toSnapshot),
+        after.loaded[index].pages.map(toSnapshot),
+      )
+    }));
+  } finally {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  }
+}
+
+export function isEmpty(diff: PageDiff): boolean {
+  return (
+    diff.added.length + diff.removed.length + diff.renamed.length + diff.modified.length === 0
+  );
+}
+
+function changeOf(previous: PageSnapshot, page: PageSnapshot): ModifiedPage {
+  const before = new Set(previous.headings);
+  const after = new Set(page.headings);
+  return {
+    relPath: page.relPath,
+    title: page.title,
+    url: page.url,
+    headingsAdded: page.headings.filter((heading) => !before.has(heading)),
+    headingsRemoved: previous.headings.filter((heading) => !after.has(heading))
+  };
+}
+
+function headingChanges(page: ModifiedPage): string {
+  const parts: string[] = [];
+  if (page.headingsAdded.length > 0) {
+    parts.push(`headings added: ${page.headingsAdded.map((heading) => `"${heading}"`).join(', ')}`);
+  }
+  if (page.headingsRemoved.length > 0) {
+    parts.push(`headings removed: ${page.headingsRemoved.map((heading) => `"${heading}"`).join(', ')}`);
+  }
+  return parts.length > 0 ? ` — ${parts.join('; ')}` : '';
+}
@@ -0,0 +1,296 @@
+export type FrontmatterData = Record<string, unknown>;
+
+export type Frontmatter = {
+  data: FrontmatterData;
+  body: string;
+  error?: string;
+};
+
+type Line = {
+  number: number;
+  indent: number;
+  text: string;
+};
+
+export function parseFrontmatter(content: string): Frontmatter {
+  const lines = content.split('\n');
+  if (lines.length === 0 || lines[0].trim() !== '---') {
+    return { data: {}, body: content };
+  }
+
+  let end = -1;
+  for (let i = 1; i < lines.length; i += 1) {
+    if (lines[i].trim() === '---') {
+      end = i;
+      break;
+    }
+  }
+  if (end === -1) {
+    return { data: {}, body: content, error: 'Frontmatter block is not closed with "---"' };
+  }
+
+  const body = lines.slice(end + 1).join('\n');
+  try {
+    const data = parseYaml(lines.slice(1, end), 2);
+    if (data !== null && (typeof data !== 'object' || Array.isArray(data))) {
+      return { data: {}, body, error: 'Frontmatter must be a mapping of keys to values' };
+    }
+    return { data: (data ?? {}) as FrontmatterData, body };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { data: {}, body, error: `Malformed frontmatter: ${message}` };
+  }
+}
+
+export function parseYaml(source: string[], firstLineNumber = 1): unknown {
+  const lines: Line[] = source.map((raw, index) => {
+    const number = firstLineNumber + index;
+    if (/^ *\t/.test(raw)) {
+      throw new Error(`line ${number}: tabs are not allowed for indentation`);
+    }
+    return { number, indent: raw.length - raw.trimStart().length, text: raw.trim() };
+  });
+
+  const cursor: Cursor = { lines, index: 0 };
+  skipBlank(cursor);
+  if (cursor.index >= lines.length) {
+    return null;
+  }
+  const value = parseBlock(cursor, lines[cursor.index].indent);
+  skipBlank(cursor);
+  if (cursor.index < lines.length) {
+    throw new Error(`line ${lines[cursor.index].number}: unexpected indentation`);
+  }
+  return value;
+}
+
+type Cursor = {
+  lines: Line[];
+  index: number;
+};
+
+function skipBlank(cursor: Cursor): void {
+  while (cursor.index < cursor.lines.length) {
+    const text = cursor.lines[cursor.index].text;
+    if (text && !text.startsWith('#')) {
+      return;
+    }
+    cursor.index += 1;
+  }
+}
+
+function parseBlock(cursor: Cursor, indent: number): unknown {
+  const line = cursor.lines[cursor.index];
+  return isListItem(line.text) ? parseList(cursor, indent) : parseMap(cursor, indent);
+}
+
+function parseList(cursor: Cursor, indent: number): unknown[] {
+  const items: unknown[] = [];
+  for (;;) {
+    skipBlank(cursor);
+    const line = cursor.lines[cursor.index];
+    if (!line || line.indent < indent) {
+      return items;
+    }
+    if (line.indent > indent || !isListItem(line.text)) {
+      throw new Error(`line ${line.number}: expected a list item`);
+    }
+
+    const rest = line.text.slice(1).trimStart();
+    if (!rest) {
+      cursor.index += 1;
+      items.push(parseNested(cursor, indent));
+      continue;
+    }
+
+    if (splitKey(rest)) {
+      const itemIndent = line.indent + (line.text.length - rest.length);
+      cursor.lines[cursor.index] = { number: line.number, indent: itemIndent, text: rest };
+      items.push(parseMap(cursor, itemIndent));
+      continue;
+    }
+
+    cursor.index += 1;
+    items.push(parseScalar(rest, line.number));
+  }
+}
+
+function parseMap(cursor: Cursor, indent: number): Record<string, unknown> {
+  const map: Record<string, unknown> = {};
+  for (;;) {
+    skipBlank(cursor);
+    const line = cursor.lines[cursor.index];
+    if (!line || line.indent < indent) {
+      return map;
+    }
+    if (line.indent > indent) {
+      throw new Error(`line ${line.number}: unexpected indentation`);
+    }
+    if (isListItem(line.text)) {
+      return map;
+    }
+
+    const entry = splitKey(line.text);
+    if (!entry) {
+      throw new Error(`line ${line.number}: expected "key: value"`);
+    }
+    const [key, rest] = entry;
+    if (Object.prototype.hasOwnProperty.call(map, key)) {
+      throw new Error(`line ${line.number}: duplicate key "${key}"`);
+    }
+    cursor.index += 1;
+
+    if (/^[|>][+-]?$/.test(rest)) {
+      map[key] = parseBlockScalar(cursor, indent, rest.startsWith('>'));
+    } else if (!rest) {
+      map[key] = parseNested(cursor, indent);
+    } else {
+      map[key] = parseScalar(rest, line.number);
+    }
+  }
+}
+
+function parseNested(cursor: Cursor, parentIndent: number): unknown {
+  skipBlank(cursor);
+  const next = cursor.lines[cursor.index];
+  if (!next) {
+    return null;
+  }
+  if (next.indent > parentIndent) {
+    return parseBlock(cursor, next.indent);
+  }
+  if (next.indent === parentIndent && isListItem(next.text)) {
+    return parseList(cursor, parentIndent);
+  }
+  return null;
+}
+
+function parseBlockScalar(cursor: Cursor, indent: number, folded: boolean): string {
+  const collected: Line[] = [];
+  while (cursor.index < cursor.lines.length) {
+    const line = cursor.lines[cursor.index];
+    if (line.text && line.indent <= indent) {
+      break;
+    }
+    collected.push(line);
+    cursor.index += 1;
+  }
+  const texts = collected.map((line) => line.text);
+  while (texts.length > 0 && !texts[texts.length - 1]) {
+    texts.pop();
+  }
+  if (!folded) {
+    return texts.join('\n');
+  }
+  return texts
+    .join('\n')
+    .replace(/([^\n])\n(?=[^\n])/g, '$1 ')
+    .replace(/\n\n/g, '\n');
+}
+
+function parseScalar(raw: string, lineNumber: number): unknown {
+  const text = raw.trim();
+  if (text.startsWith('"')) {
+    const end = findClosingQuote(text, '"');
+    if (end === -1) {
+      throw new Error(`line ${lineNumber}: unterminated double-quoted string`);
+    }
+    assertNothingAfter(text.slice(end + 1), lineNumber);
+    try {
+      return JSON.parse(text.slice(0, end + 1));
+    } catch {
+      throw new Error(`line ${lineNumber}: invalid escape in double-quoted string`);
+    }
+  }
+  if (text.startsWith("'")) {
+    const end = findClosingQuote(text, "'");
+    if (end === -1) {
+      throw new Error(`line ${lineNumber}: unterminated single-quoted string`);
+    }
+    assertNothingAfter(text.slice(end + 1), lineNumber);
+    return text.slice(1, end).replace(/''/g, "'");
+  }
+  if (text.startsWith('[')) {
+    if (!text.endsWith(']')) {
+      throw new Error(`line ${lineNumber}: unterminated inline list`);
+    }
+    const inner = text.slice(1, -1).trim();
+    return inner ? splitInlineList(inner).map((item) => parseScalar(item, lineNumber)) : [];
+  }
+
+  const value = text.replace(/\s+#.*$/, '');
+  if (value === '~' || value === 'null') {
+    return null;
+  }
+  if (value === 'true' || value === 'false') {
+    return value === 'true';
+  }
+  if (/^-?\d+(\.\d+)?$/.test(value)) {
+    return Number(value);
+  }
+  return value;
+}
+
+function findClosingQuote(text: string, quote: string): number {
+  for (let i = 1; i < text.length; i += 1) {
+    if (quote === '"' && text[i] === '\\') {
+      i += 1;
+      continue;
+    }
+    if (text[i] === quote) {
+      if (quote === "'" && text[i + 1] === "'") {
+        i += 1;
+        continue;
+      }
+      return i;
+    }
+  }
+  return -1;
+}
+
+function assertNothingAfter(rest: string, lineNumber: number): void {
+  if (rest.trim() && !rest.trim().startsWith('#')) {
+    throw new Error(`line ${lineNumber}: unexpected text after quoted string`);
+  }
+}
+
+function splitInlineList(inner: string): string[] {
+  const items: string[] = [];
+  let current = '';
+  let quote = '';
+  for (const char of inner) {
+    if (quote) {
+      current += char;
+      if (char === quote) {
+        quote = '';
+      }
+      continue;
+    }
+    if (char === '"' || char === "'") {
+      quote = char;
+      current += char;
+      continue;
+    }
+    if (char === ',') {
+      items.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  items.push(current.trim());
+  return items.filter(Boolean);
+}
+
+function splitKey(text: string): [string, string] | undefined {
+  const match = text.match(/^("[^"]*"|'[^']*'|[^\s"'#][^:]*?)\s*:(?:\s+(.*))?$/);
+  if (!match) {
+    return undefined;
+  }
+  const key = match[1].replace(/^["']|["']$/g, '');
+  return [key, (match[2] ?? '').trim()];
+}
+
+function isListItem(text: string): boolean {
+  return text === '-' || text.startsWith('- ');
+}
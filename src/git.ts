@@ -4,6 +4,7 @@ import fs from 'node:fs';
 import path from 'node:path';
 
 const execFileAsync = promisify(execFile);
+const FETCHED_REF_PREFIX = 'refs/craft-llms/';
 
 export async function runGit(args: string[], cwd?: string): Promise<string> {
   try {
@@ -15,22 +16,148 @@ export async function runGit(args: string[], cwd?: string): Promise<string> {
   }
 }
 
-export async function ensureDocsRepo(repoDir: string, repoUrl: string): Promise<void> {
-  if (!fs.existsSync(repoDir)) {
-    await runGit(['clone', '--depth', '1', repoUrl, repoDir]);
-    return;
+export type RepoOptions = {
+  ref?: string;
+  offline?: boolean;
+  sparsePaths?: string[];
+};
+
+export type RepoMeta = {
+  commit: string;
+  timestamp: string;
+  ref?: string;
+};
+
+export async function ensureDocsRepo(
+  repoDir: string,
+  repoUrl: string,
+  options: RepoOptions = {},
+): Promise<void> {
+  const exists = fs.existsSync(repoDir);
+  if (!exists && options.offline) {
+    throw new Error(`Docs repo not found at ${repoDir}. Run once without --offline to clone it.`);
   }
 
-  const gitDir = path.join(repoDir, '.git');
-  if (!fs.existsSync(gitDir)) {
+  if (!exists) {
+    if (options.ref) {
+      await runGit(['init', '--quiet', repoDir]);
+      await runGit(['-C', repoDir, 'remote', 'add', 'origin', repoUrl]);
+    } else {
+      const sparseArgs = options.sparsePaths ? ['--filter=blob:none', '--sparse'] : [];
+      await runGit(['clone', '--depth', '1', ...sparseArgs, repoUrl, repoDir]);
+    }
+  } else if (!fs.existsSync(path.join(repoDir, '.git'))) {
     throw new Error(`Docs repo path exists but is not a git repo: ${repoDir}`);
   }
 
-  await runGit(['-C', repoDir, 'pull', '--ff-only']);
+  if (options.offline) {
+    if (options.ref) {
+      const commit = await resolveLocalRef(repoDir, options.ref);
+      if (!commit) {
+        throw new Error(
+          `Ref "${options.ref}" is not in the clone at ${repoDir}. Run once without --offline to fetch it.`,
+        );
+      }
+      await runGit(['-C', repoDir, 'checkout', '--quiet', '--detach', commit]);
+    }
+    return;
+  }
+
+  if (options.sparsePaths) {
+    await runGit(['-C', repoDir, 'sparse-checkout', 'set', ...options.sparsePaths]);
+  } else if (exists && (await readGitConfig(repoDir, 'core.sparseCheckout')) === 'true') {
+    await runGit(['-C', repoDir, 'sparse-checkout', 'disable']);
+  }
+
+  if (options.ref || (exists && (await currentBranch(repoDir)) === undefined)) {
+    await runGit(['-C', repoDir, 'fetch', '--quiet', '--depth', '1', 'origin', options.ref ?? 'HEAD']);
+    await runGit(['-C', repoDir, 'checkout', '--quiet', '--detach', 'FETCH_HEAD']);
+    if (options.ref) {
+      await rememberRef(repoDir, options.ref);
+    }
+  } else if (exists) {
+    await runGit(['-C', repoDir, 'pull', '--ff-only']);
+  }
+}
+
+export async function addSparsePaths(repoDir: string, paths: string[]): Promise<void> {
+  await runGit(['-C', repoDir, 'sparse-checkout', 'add', ...paths]);
+}
+
+export async function exportRef(
+  repoDir: string,
+  ref: string,
+  targetDir: string,
+  options: { offline?: boolean } = {},
+): Promise<RepoMeta> {
+  if (!fs.existsSync(path.join(repoDir, '.git'))) {
+    throw new Error(`Docs repo not found at ${repoDir}. Run build once to clone it.`);
+  }
+
+  let commit = await resolveCommit(repoDir, ref);
+  if (!commit && !options.offline) {
+    await runGit(['-C', repoDir, 'fetch', '--quiet', '--depth', '1', 'origin', ref]);
+    commit = await resolveCommit(repoDir, 'FETCH_HEAD');
+  }
+  if (!commit) {
+    throw new Error(`Unknown ref "${ref}" in ${repoDir}.`);
+  }
+
+  await fs.promises.mkdir(targetDir, { recursive: true });
+  const archivePath = `${targetDir}.tar`;
+  await runGit(['-C', repoDir, 'archive', '--format=tar', '-o', archivePath, commit]);
+  try {
+    await execFileAsync('tar', ['-xf', archivePath, '-C', targetDir]);
+  } finally {
+    await fs.promises.rm(archivePath, { force: true });
+  }
+
+  const timestamp = (await runGit(['-C', repoDir, 'log', '-1', '--format=%cI', commit])).trim();
+  return { commit: commit.slice(0, 7), timestamp, ref };
 }
 
-export async function getRepoMeta(repoDir: string): Promise<{ commit: string; timestamp: string }> {
+export async function getRepoMeta(repoDir: string, ref?: string): Promise<RepoMeta> {
   const commit = (await runGit(['-C', repoDir, 'rev-parse', '--short', 'HEAD'])).trim();
   const timestamp = (await runGit(['-C', repoDir, 'log', '-1', '--format=%cI'])).trim();
-  return { commit, timestamp };
+  return { commit, timestamp, ref: ref ?? (await currentBranch(repoDir)) };
+}
+
+async function currentBranch(repoDir: string): Promise<string | undefined> {
+  const branch = (await runGit(['-C', repoDir, 'rev-parse', '--abbrev-ref', 'HEAD'])).trim();
+  return branch === 'HEAD' ? undefined : branch;
+}
+
+async function resolveCommit(repoDir: string, ref: string): Promise<string | undefined> {
+  try {
+    return (await runGit(['-C', repoDir, 'rev-parse', '--verify', '--quiet', `${ref}^{commit}`])).trim();
+  } catch {
+    return undefined;
+  }
+}
+
+// Fetched refs are kept under refs/craft-llms/ so that offline builds can find them again.
+async function rememberRef(repoDir: string, ref: string): Promise<void> {
+  try {
+    await runGit(['-C', repoDir, 'update-ref', `${FETCHED_REF_PREFIX}${ref}`, 'HEAD']);
+  } catch {
+    // Not a valid ref name (e.g. an abbreviated SHA); offline builds resolve it directly.
+  }
+}
+
+async function resolveLocalRef(repoDir: string, ref: string): Promise<string | undefined> {
+  for (const candidate of [`${FETCHED_REF_PREFIX}${ref}`, `refs/tags/${ref}`, `origin/${ref}`, ref]) {
+    const commit = await resolveCommit(repoDir, candidate);
+    if (commit) {
+      return commit;
+    }
+  }
+  return undefined;
+}
+
+async function readGitConfig(repoDir: string, key: string): Promise<string | undefined> {
+  try {
+    return (await runGit(['-C', repoDir, 'config', '--get', key])).trim();
+  } catch {
+    return undefined;
+  }
 }
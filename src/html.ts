@@ -0,0 +1,350 @@
+import { updateFenceState, type FenceState } from './markdown.js';
+
+type HtmlElement = {
+  name: string;
+  attrs: Record<string, string>;
+  raw: string;
+  children: HtmlNode[];
+  closed: boolean;
+};
+
+type HtmlNode = HtmlElement | string;
+
+const BLOCK_OPEN_RE = /^(\s*)<(table|dl|details)(?=[\s>])/i;
+const TOKEN_RE =
+  /<!--[\s\S]*?-->|<\/?([A-Za-z][\w:-]*)((?:\s+[^\s=>/]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+))?)*)\s*\/?>/g;
+const ATTRIBUTE_RE = /([^\s=>/]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+const VOID_TAGS = new Set(['br', 'col', 'hr', 'img', 'input', 'source', 'wbr']);
+const IMPLIED_END_TAGS: Record<string, string[]> = {
+  td: ['td', 'th'],
+  th: ['td', 'th'],
+  tr: ['tr', 'td', 'th'],
+  thead: ['thead', 'tbody', 'tr', 'td', 'th'],
+  tbody: ['thead', 'tbody', 'tr', 'td', 'th'],
+  tfoot: ['thead', 'tbody', 'tr', 'td', 'th'],
+  dt: ['dt', 'dd'],
+  dd: ['dt', 'dd'],
+  li: ['li'],
+  p: ['p']
+};
+const UNSUPPORTED_IN_CELL = new Set(['blockquote', 'div', 'dl', 'ol', 'pre', 'table', 'ul']);
+
+export function convertHtmlBlocks(content: string): string {
+  const lines = content.split('\n');
+  const output: string[] = [];
+  let state: FenceState = { inFence: false, fenceMarker: '' };
+
+  for (let index = 0; index < lines.length; index += 1) {
+    const line = lines[index];
+    const wasInFence = state.inFence;
+    state = updateFenceState(line, state);
+    const opening = wasInFence || state.inFence ? undefined : line.match(BLOCK_OPEN_RE);
+    if (!opening) {
+      output.push(line);
+      continue;
+    }
+
+    const end = findBlockEnd(lines, index, opening[2].toLowerCase());
+    if (end === undefined) {
+      output.push(line);
+      continue;
+    }
+
+    const block = lines.slice(index, end + 1);
+    const converted = convertBlock(opening[2].toLowerCase(), block.join('\n'));
+    if (!converted) {
+      output.push(...block);
+    } else {
+      if (output.length > 0 && output[output.length - 1].trim()) {
+        output.push('');
+      }
+      output.push(...converted.map((item) => (item ? `${opening[1]}${item}` : item)));
+      if (lines[end + 1]?.trim()) {
+        output.push('');
+      }
+    }
+    index = end;
+  }
+
+  return output.join('\n');
+}
+
+function findBlockEnd(lines: string[], start: number, tag: string): number | undefined {
+  const openRe = new RegExp(`<${tag}(?=[\\s>])`, 'gi');
+  const closeRe = new RegExp(`</${tag}\\s*>`, 'gi');
+  let state: FenceState = { inFence: false, fenceMarker: '' };
+  let depth = 0;
+
+  for (let index = start; index < lines.length; index += 1) {
+    const line = lines[index];
+    const wasInFence = state.inFence;
+    state = updateFenceState(line, state);
+    if (wasInFence || state.inFence) {
+      if (tag !== 'details') {
+        return undefined;
+      }
+      continue;
+    }
+    depth += (line.match(openRe) ?? []).length - (line.match(closeRe) ?? []).length;
+    if (depth <= 0) {
+      return index;
+    }
+  }
+  return undefined;
+}
+
+function convertBlock(tag: string, html: string): string[] | undefined {
+  if (tag === 'details') {
+    return convertDetails(html);
+  }
+  const root = parseHtml(html.trim());
+  const [element, ...rest] = root.filter((node) => typeof node !== 'string' || node.trim());
+  if (rest.length > 0 || typeof element === 'string' || !element?.closed) {
+    return undefined;
+  }
+  return tag === 'table' ? convertTable(element) : convertDefinitionList(element);
+}
+
+function convertTable(table: HtmlElement): string[] | undefined {
+  const rows: { cells: HtmlElement[]; header: boolean }[] = [];
+  let caption: string | undefined;
+
+  const collectRows = (parent: HtmlElement, inHead: boolean): boolean => {
+    for (const child of elements(parent)) {
+      if (child.name === 'tr') {
+        const cells = elements(child);
+        if (cells.some((cell) => cell.name !== 'td' && cell.name !== 'th')) {
+          return false;
+        }
+        rows.push({ cells, header: inHead || cells.every((cell) => cell.name === 'th') });
+      } else if (['thead', 'tbody', 'tfoot'].includes(child.name) && parent === table) {
+        if (!collectRows(child, child.name === 'thead')) {
+          return false;
+        }
+      } else if (child.name === 'caption' && parent === table) {
+        caption = inlineMarkdown(child.children);
+      } else if (child.name !== 'colgroup' && child.name !== 'col') {
+        return false;
+      }
+    }
+    return true;
+  };
+
+  if (!collectRows(table, false) || rows.length === 0) {
+    return undefined;
+  }
+  const cells = rows.flatMap((row) => row.cells);
+  const unsupported = cells.some(
+    (cell) =>
+      Number(cell.attrs.colspan ?? 1) > 1 ||
+      Number(cell.attrs.rowspan ?? 1) > 1 ||
+      containsAny(cell, UNSUPPORTED_IN_CELL),
+  );
+  if (unsupported) {
+    return undefined;
+  }
+
+  const width = Math.max(...rows.map(({ cells }) => cells.length));
+  const hasHeader = rows[0].header;
+  const body = hasHeader ? rows.slice(1) : rows;
+  const renderRow = (cells: string[]) =>
+    `| ${Array.from({ length: width }, (_, index) => cells[index] ?? '').join(' | ')} |`;
+  const cellText = (cell: HtmlElement) => escapePipes(inlineMarkdown(cell.children, '<br>'));
+
+  const lines = caption ? [`**${caption}**`, ''] : [];
+  lines.push(
+    renderRow(hasHeader ? rows[0].cells.map(cellText) : []),
+    renderRow(Array.from({ length: width }, () => '---')),
+    ...body.map(({ cells }) => renderRow(cells.map(cellText))),
+  );
+  return lines;
+}
+
+function convertDefinitionList(list: HtmlElement): string[] | undefined {
+  const lines: string[] = [];
+  let terms: string[] = [];
+  let definitions: string[] = [];
+
+  const flush = () => {
+    if (terms.length === 0) {
+      return;
+    }
+    const term = terms.map((text) => `**${text}**`).join(', ');
+    if (definitions.length === 1) {
+      lines.push(`- ${term}: ${definitions[0]}`);
+    } else {
+      lines.push(`- ${term}`, ...definitions.map((definition) => `  - ${definition}`));
+    }
+    terms = [];
+    definitions = [];
+  };
+
+  for (const child of elements(list)) {
+    if (child.name === 'dt') {
+      if (definitions.length > 0) {
+        flush();
+      }
+      terms.push(inlineMarkdown(child.children));
+    } else if (
+      child.name === 'dd' &&
+      terms.length > 0 &&
+      !containsAny(child, UNSUPPORTED_IN_CELL)
+    ) {
+      definitions.push(inlineMarkdown(child.children));
+    } else {
+      return undefined;
+    }
+  }
+  flush();
+
+  return lines.length > 0 ? lines : undefined;
+}
+
+function convertDetails(html: string): string[] | undefined {
+  const match = html.match(/^\s*<details\b[^>]*>([\s\S]*)<\/details\s*>\s*$/i);
+  if (!match) {
+    return undefined;
+  }
+  let inner = match[1];
+  let title = 'Details';
+  const summary = inner.match(/^\s*<summary\b[^>]*>([\s\S]*?)<\/summary\s*>/i);
+  if (summary) {
+    title = inlineMarkdown(parseHtml(summary[1])) || title;
+    inner = inner.slice(summary[0].length);
+  }
+
+  const body = convertHtmlBlocks(dedent(inner.replace(/^[ \t]*\n|\n[ \t]*$/g, '')).trim());
+  return body ? [`**${title}**`, '', ...body.split('\n')] : [`**${title}**`];
+}
+
+function parseHtml(html: string): HtmlNode[] {
+  const root: HtmlElement = { name: '', attrs: {}, raw: '', children: [], closed: true };
+  const stack: HtmlElement[] = [root];
+  let last = 0;
+
+  for (const match of html.matchAll(TOKEN_RE)) {
+    const text = html.slice(last, match.index);
+    if (text) {
+      stack[stack.length - 1].children.push(text);
+    }
+    last = match.index + match[0].length;
+    const token = match[0];
+    if (token.startsWith('<!--')) {
+      continue;
+    }
+
+    const name = match[1].toLowerCase();
+    if (token.startsWith('</')) {
+      const openIndex = stack.map((element) => element.name).lastIndexOf(name);
+      if (openIndex > 0) {
+        stack[openIndex].closed = true;
+        stack.length = openIndex;
+      }
+      continue;
+    }
+
+    const implied = IMPLIED_END_TAGS[name];
+    while (implied && stack.length > 1 && implied.includes(stack[stack.length - 1].name)) {
+      stack[stack.length - 1].closed = true;
+      stack.pop();
+    }
+    const element: HtmlElement = {
+      name,
+      attrs: parseAttributes(match[2] ?? ''),
+      raw: token,
+      children: [],
+      closed: VOID_TAGS.has(name) || token.endsWith('/>')
+    };
+    stack[stack.length - 1].children.push(element);
+    if (!element.closed) {
+      stack.push(element);
+    }
+  }
+  const rest = html.slice(last);
+  if (rest) {
+    stack[stack.length - 1].children.push(rest);
+  }
+
+  return root.children;
+}
+
+function parseAttributes(raw: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const match of raw.matchAll(ATTRIBUTE_RE)) {
+    attrs[match[1].toLowerCase()] = match[2] ?? match[3] ?? match[4] ?? '';
+  }
+  return attrs;
+}
+
+function inlineMarkdown(nodes: HtmlNode[], lineBreak = ' '): string {
+  const render = (node: HtmlNode): string => {
+    if (typeof node === 'string') {
+      return node.replace(/&nbsp;/g, ' ').replace(/\s+/g, ' ');
+    }
+    const inner = () => node.children.map(render).join('');
+    switch (node.name) {
+      case 'br':
+        return lineBreak;
+      case 'p':
+        return `${lineBreak}${inner().trim()}${lineBreak}`;
+      case 'a':
+        return node.attrs.href ? `[${inner().trim()}](${node.attrs.href})` : inner();
+      case 'code':
+        return codeSpan(node.children.map(textContent).join(''));
+      case 'strong':
+      case 'b':
+        return emphasis(inner(), '**');
+      case 'em':
+      case 'i':
+        return emphasis(inner(), '_');
+      default:
+        return node.closed && !VOID_TAGS.has(node.name) && !node.raw.endsWith('/>')
+          ? `${node.raw}${inner()}</${node.name}>`
+          : `${node.raw}${inner()}`;
+    }
+  };
+
+  const breaks = lineBreak.trim() ? new RegExp(`\\s*(${lineBreak}\\s*)+`, 'g') : undefined;
+  let text = nodes.map(render).join('').replace(/\s+/g, ' ');
+  if (breaks) {
+    text = text.replace(breaks, lineBreak);
+    text = text.replace(new RegExp(`^(${lineBreak})+|(${lineBreak})+$`, 'g'), '');
+  }
+  return text.trim();
+}
+
+function textContent(node: HtmlNode): string {
+  return typeof node === 'string' ? node : node.children.map(textContent).join('');
+}
+
+function codeSpan(text: string): string {
+  const code = text.replace(/\s+/g, ' ').trim();
+  const longest = Math.max(0, ...Array.from(code.matchAll(/`+/g), (run) => run[0].length));
+  const fence = '`'.repeat(longest + 1);
+  return longest > 0 ? `${fence} ${code} ${fence}` : `${fence}${code}${fence}`;
+}
+
+function emphasis(text: string, marker: string): string {
+  const trimmed = text.trim();
+  return trimmed ? `${marker}${trimmed}${marker}` : text;
+}
+
+function escapePipes(text: string): string {
+  return text.replace(/(?<!\\)\|/g, '\\|');
+}
+
+function elements(parent: HtmlElement): HtmlElement[] {
+  return parent.children.filter((child): child is HtmlElement => typeof child !== 'string');
+}
+
+function containsAny(element: HtmlElement, names: Set<string>): boolean {
+  return elements(element).some((child) => names.has(child.name) || containsAny(child, names));
+}
+
+function dedent(text: string): string {
+  const lines = text.split('\n');
+  const indent = Math.min(
+    ...lines.filter((line) => line.trim()).map((line) => line.match(/^\s*/)?.[0].length ?? 0),
+  );
+  return Number.isFinite(indent) ? lines.map((line) => line.slice(indent)).join('\n') : text;
+}
@@ -0,0 +1,131 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { loadBuildCache, type BuildCache } from './cache.js';
+import { extractHtmlAnchors, findLinks, resolveDocLink } from './markdown.js';
+import { loadSources, type LoadedSource, type ProcessedPage } from './pipeline.js';
+import type { BuildConfig } from './config.js';
+
+export type BrokenLink = {
+  sourceId: string;
+  filePath: string;
+  line: number;
+  destination: string;
+  reason: string;
+};
+
+export type LinkReport = {
+  totalPages: number;
+  totalLinks: number;
+  broken: BrokenLink[];
+};
+
+type PageTarget = {
+  page: ProcessedPage;
+  anchors: Set<string>;
+};
+
+export async function checkLinks(config: BuildConfig): Promise<LinkReport> {
+  const cache: BuildCache<ProcessedPage> = config.cache
+    ? await loadBuildCache<ProcessedPage>(path.resolve(config.cacheDir))
+    : { version: 0, sources: {} };
+  const loaded = await loadSources(config, cache);
+
+  const targets = new Map<string, PageTarget>();
+  for (const { pages } of loaded) {
+    for (const page of pages) {
+      const anchors = new Set([
+        ...page.headings.map((heading) => heading.slug),
+        ...extractHtmlAnchors(page.content)
+      ]);
+      const target = { page, anchors };
+      targets.set(page.url, target);
+      if (page.url.endsWith('/index.html')) {
+        targets.set(page.url.slice(0, -'index.html'.length), target);
+      }
+    }
+  }
+
+  const report: LinkReport = { totalPages: 0, totalLinks: 0, broken: [] };
+  for (const source of loaded) {
+    for (const page of source.pages) {
+      report.totalPages += 1;
+      const filePath = path.join(source.docsRoot, page.relPath);
+      const raw = await fs.readFile(filePath, 'utf8');
+      for (const link of findLinks(raw)) {
+        const { internal, reason } = await checkLink(link.destination, page, source, loaded, targets);
+        if (!internal) {
+          continue;
+        }
+        report.totalLinks += 1;
+        if (reason) {
+          report.broken.push({
+            sourceId: source.source.id,
+            filePath,
+            line: link.line,
+            destination: link.destination,
+            reason
+          });
+        }
+      }
+    }
+  }
+
+  return report;
+}
+
+async function checkLink(
+  destination: string,
+  page: ProcessedPage,
+  source: LoadedSource,
+  loaded: LoadedSource[],
+  targets: Map<string, PageTarget>,
+): Promise<{ internal: boolean; reason?: string }> {
+  const resolved = destination.startsWith('#')
+    ? `${page.url}${destination}`
+    : resolveDocLink(destination, page.relPath, source.baseUrl, source.aliasPath);
+
+  const owner = loaded
+    .filter((candidate) => resolved.startsWith(candidate.baseUrl))
+    .sort((a, b) => b.baseUrl.length - a.baseUrl.length)[0];
+  if (!owner) {
+    return { internal: false };
+  }
+
+  const hashIndex = resolved.indexOf('#');
+  const hash = hashIndex >= 0 ? resolved.slice(hashIndex + 1) : '';
+  const withoutHash = hashIndex >= 0 ? resolved.slice(0, hashIndex) : resolved;
+  const url = withoutHash.split('?')[0];
+
+  const target = targets.get(url);
+  if (!target) {
+    const relative = decodeUri(url.slice(owner.baseUrl.length));
+    const extension = path.posix.extname(relative).toLowerCase();
+    if (extension && extension !== '.html') {
+      const found = await exists(path.join(owner.docsRoot, relative));
+      return { internal: true, reason: found ? undefined : `file not found: ${relative}` };
+    }
+    return { internal: true, reason: `page not found: ${url}` };
+  }
+
+  if (hash && !target.anchors.has(decodeUri(hash))) {
+    return { internal: true, reason: `anchor #${hash} not found in ${target.page.relPath}` };
+  }
+  return { internal: true };
+}
+
+function decodeUri(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+async function exists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,216 @@
+// Reads the value a `module.exports = ...` or `export default ...` file exports, as long as it is
+// a plain literal: objects, arrays, strings, numbers, booleans, null and undefined. The file is
+// parsed, never run, so a docs repo cannot execute code on the build machine.
+export function parseExportedLiteral(source: string): unknown {
+  const cursor: Cursor = { source, index: 0 };
+  skipDirectives(cursor);
+  const exported =
+    consumeWords(cursor, ['module', '.', 'exports', '=']) ||
+    consumeWords(cursor, ['export', 'default']);
+  if (!exported) {
+    fail(cursor, 'Expected `module.exports =` or `export default`');
+  }
+  const value = parseValue(cursor);
+  consume(cursor, ';');
+  skipSpace(cursor);
+  if (cursor.index < source.length) {
+    fail(cursor, unexpected(cursor));
+  }
+  return value;
+}
+
+type Cursor = {
+  source: string;
+  index: number;
+};
+
+const ESCAPES: Record<string, string> = {
+  n: '\n',
+  r: '\r',
+  t: '\t',
+  b: '\b',
+  f: '\f',
+  v: '\v',
+  0: '\0'
+};
+const IDENTIFIER = /[A-Za-z_$][\w$]*/y;
+const NUMBER = /[+-]?(?:0[xX][\da-fA-F]+|(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?)/y;
+const SPACE = /(?:\s+|\/\/[^\n]*|\/\*[\s\S]*?\*\/)*/y;
+const WORDS = new Map<string, unknown>([
+  ['true', true],
+  ['false', false],
+  ['null', null],
+  ['undefined', undefined]
+]);
+
+function parseValue(cursor: Cursor): unknown {
+  skipSpace(cursor);
+  const char = cursor.source[cursor.index];
+  if (char === '{') {
+    return parseObject(cursor);
+  }
+  if (char === '[') {
+    return parseArray(cursor);
+  }
+  if (char === '"' || char === "'" || char === '`') {
+    return parseString(cursor);
+  }
+  const number = match(cursor, NUMBER);
+  if (number !== undefined) {
+    return Number(number);
+  }
+  const start = cursor.index;
+  const word = match(cursor, IDENTIFIER);
+  if (word !== undefined && WORDS.has(word)) {
+    return WORDS.get(word);
+  }
+  cursor.index = start;
+  return fail(cursor, unexpected(cursor));
+}
+
+function parseObject(cursor: Cursor): Record<string, unknown> {
+  cursor.index += 1;
+  const result: Record<string, unknown> = {};
+  while (!consume(cursor, '}')) {
+    const char = cursor.source[cursor.index];
+    const key =
+      char === '"' || char === "'"
+        ? parseString(cursor)
+        : (match(cursor, IDENTIFIER) ?? match(cursor, NUMBER) ?? fail(cursor, unexpected(cursor)));
+    if (!consume(cursor, ':')) {
+      fail(cursor, unexpected(cursor));
+    }
+    result[key] = parseValue(cursor);
+    endItem(cursor, '}');
+  }
+  return result;
+}
+
+function parseArray(cursor: Cursor): unknown[] {
+  cursor.index += 1;
+  const result: unknown[] = [];
+  while (!consume(cursor, ']')) {
+    result.push(parseValue(cursor));
+    endItem(cursor, ']');
+  }
+  return result;
+}
+
+// Items are separated by commas, and a trailing comma before the closing bracket is allowed.
+function endItem(cursor: Cursor, close: string): void {
+  if (consume(cursor, ',')) {
+    return;
+  }
+  if (!cursor.source.startsWith(close, cursor.index)) {
+    fail(cursor, unexpected(cursor));
+  }
+}
+
+function parseString(cursor: Cursor): string {
+  const { source } = cursor;
+  const quote = source[cursor.index];
+  cursor.index += 1;
+  let result = '';
+  while (cursor.index < source.length) {
+    const char = source[cursor.index];
+    if (char === quote) {
+      cursor.index += 1;
+      return result;
+    }
+    if (quote === '`' && source.startsWith('${', cursor.index)) {
+      fail(cursor, 'Unexpected `${`, only plain literals are allowed');
+    }
+    if (char === '\n' && quote !== '`') {
+      break;
+    }
+    if (char === '\\') {
+      result += parseEscape(cursor);
+    } else {
+      result += char;
+      cursor.index += 1;
+    }
+  }
+  return fail(cursor, 'Unterminated string');
+}
+
+function parseEscape(cursor: Cursor): string {
+  const { source } = cursor;
+  const char = source[cursor.index + 1] ?? '';
+  cursor.index += 2;
+  if (char === '\n') {
+    return '';
+  }
+  if (char !== 'x' && char !== 'u') {
+    return ESCAPES[char] ?? char;
+  }
+  const braced = char === 'u' && source[cursor.index] === '{';
+  const digits = braced
+    ? source.slice(cursor.index + 1, source.indexOf('}', cursor.index))
+    : source.slice(cursor.index, cursor.index + (char === 'x' ? 2 : 4));
+  if (!/^[\da-fA-F]+$/.test(digits)) {
+    fail(cursor, 'Invalid escape sequence');
+  }
+  cursor.index += digits.length + (braced ? 2 : 0);
+  return String.fromCodePoint(parseInt(digits, 16));
+}
+
+function skipDirectives(cursor: Cursor): void {
+  skipSpace(cursor);
+  while (/^(['"])use strict\1/.test(cursor.source.slice(cursor.index))) {
+    cursor.index += '"use strict"'.length;
+    consume(cursor, ';');
+    skipSpace(cursor);
+  }
+}
+
+function consumeWords(cursor: Cursor, tokens: string[]): boolean {
+  const start = cursor.index;
+  for (const token of tokens) {
+    skipSpace(cursor);
+    const matched = /\w/.test(token) ? match(cursor, IDENTIFIER) === token : consume(cursor, token);
+    if (!matched) {
+      cursor.index = start;
+      return false;
+    }
+  }
+  return true;
+}
+
+function consume(cursor: Cursor, token: string): boolean {
+  skipSpace(cursor);
+  if (!cursor.source.startsWith(token, cursor.index)) {
+    return false;
+  }
+  cursor.index += token.length;
+  return true;
+}
+
+function skipSpace(cursor: Cursor): void {
+  match(cursor, SPACE);
+}
+
+function match(cursor: Cursor, pattern: RegExp): string | undefined {
+  pattern.lastIndex = cursor.index;
+  const found = pattern.exec(cursor.source);
+  if (!found) {
+    return undefined;
+  }
+  cursor.index += found[0].length;
+  return found[0];
+}
+
+function unexpected(cursor: Cursor): string {
+  if (cursor.index >= cursor.source.length) {
+    return 'Unexpected end of input';
+  }
+  const token = /^[\w$]+|^\S/.exec(cursor.source.slice(cursor.index))?.[0] ?? '';
+  return `Unexpected \`${token}\`, only plain literals are allowed`;
+}
+
+function fail(cursor: Cursor, message: string): never {
+  if (message === 'Unexpected end of input') {
+    throw new Error(message);
+  }
+  const line = cursor.source.slice(0, cursor.index).split('\n').length;
+  throw new Error(`${message} at line ${line}`);
+}
@@ -0,0 +1,54 @@
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+const execFileAsync = promisify(execFile);
+
+const SKIPPED_DIRS = new Set(['.git', 'node_modules']);
+
+export async function extractArchive(archivePath: string, targetDir: string): Promise<string> {
+  try {
+    await fs.access(archivePath);
+  } catch {
+    throw new Error(`Docs archive not found: ${archivePath}`);
+  }
+
+  await fs.rm(targetDir, { recursive: true, force: true });
+  await fs.mkdir(targetDir, { recursive: true });
+  try {
+    await execFileAsync('tar', ['-xzf', archivePath, '-C', targetDir]);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Could not extract ${archivePath}: ${message}`);
+  }
+
+  const entries = await fs.readdir(targetDir, { withFileTypes: true });
+  if (entries.length === 1 && entries[0].isDirectory()) {
+    return path.join(targetDir, entries[0].name);
+  }
+  return targetDir;
+}
+
+export async function newestMtime(rootDir: string): Promise<Date | undefined> {
+  let newest: Date | undefined;
+  const entries = await fs.readdir(rootDir, { withFileTypes: true });
+
+  for (const entry of entries) {
+    const entryPath = path.join(rootDir, entry.name);
+    let candidate: Date | undefined;
+    if (entry.isDirectory()) {
+      if (SKIPPED_DIRS.has(entry.name)) {
+        continue;
+      }
+      candidate = await newestMtime(entryPath);
+    } else if (entry.isFile()) {
+      candidate = (await fs.stat(entryPath)).mtime;
+    }
+    if (candidate && (!newest || candidate > newest)) {
+      newest = candidate;
+    }
+  }
+
+  return newest;
+}
@@ -1,19 +1,121 @@
 import fs from 'node:fs/promises';
 import path from 'node:path';
-
-type FenceState = {
+import {
+  componentKey,
+  componentRules,
+  isComponentName,
+  renderTemplate,
+  type ComponentRules
+} from './components.js';
+
+export type FenceState = {
   inFence: boolean;
   fenceMarker: '```' | '~~~' | '';
 };
 
-const INLINE_LINK_RE = /(?<!!)\[([^\]]+)\]\(([^)]+)\)/g;
+export type ContainerMode = 'keep' | 'unwrap' | 'drop';
+
+export type ContainerModes = Record<string, ContainerMode>;
+
+export type ImageMode = 'keep' | 'text';
+
+export type LinkOptions = {
+  baseUrl: string;
+  currentFilePath: string;
+  aliasPath?: string;
+  images?: ImageMode;
+};
+
+type LineSelection = {
+  region?: string;
+  ranges?: string;
+};
+
+type ComponentState = {
+  rules: ComponentRules;
+  dropping?: { key: string; depth: number };
+  onUnknown?: (name: string) => void;
+};
+
+type OpenContainer = {
+  colons: number;
+  mode: ContainerMode;
+  labelsCode: boolean;
+  prefix: string;
+};
+
+export type Heading = {
+  level: number;
+  text: string;
+  slug: string;
+};
+
+export type IncludeProblem = {
+  code: string;
+  message: string;
+  file: string;
+  line?: number;
+};
+
+export type LinkReference = {
+  destination: string;
+  line: number;
+};
+
+const INLINE_LINK_RE = /(?<!!)\[((?:!\[[^\]]*\]\([^)]*\)|[^\]])+)\]\(([^)]+)\)/g;
+const IMAGE_RE = /!\[([^\]]*)\]\(([^)]+)\)/g;
+const HTML_TAG_RE = /<([A-Za-z][\w-]*)(\s[^>]*)>/g;
+const URL_ATTRIBUTE_RE = /(\s(?:href|src|srcset|poster)\s*=\s*)(["'])(.*?)\2/gi;
+const AUTOLINK_RE = /<((?:\.{1,2}\/|@\/|\/[\w.-]+[./])[^\s<>]*)>/g;
+const CODE_SPAN_RE = /(`+).+?\1/g;
 const HEADING_RE = /^#{1,6}\s+/;
 const LIST_RE = /^\s*([-*+]|\d+\.)\s+/;
+const HEADING_LINE_RE = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const CUSTOM_ANCHOR_RE = /\s*\{#([^}\s]+)\}\s*$/;
+const REFERENCE_DEFINITION_RE = /^(\s*\[[^\]]+\]:\s*)(\S+)([\s\S]*)$/;
+const SLUG_SPECIAL_RE = /[\s~`!@#$%^&*()\-_+=[\]{}|\\;:"'“”‘’<>,.?/]+/g;
+const CONTAINER_OPEN_RE = /^(:{3,})\s*([A-Za-z][\w-]*)\s*(.*)$/;
+const CONTAINER_CLOSE_RE = /^(:{3,})\s*$/;
+const CODE_CONTAINER_TYPES = new Set(['code', 'code-group']);
+const CONTAINER_LABELS: Record<string, string> = {
+  tip: 'Tip',
+  note: 'Note',
+  info: 'Info',
+  warning: 'Warning',
+  caution: 'Caution',
+  danger: 'Danger',
+  important: 'Important',
+  details: 'Details'
+};
 const INCLUDE_DIRECTIVE_RE = /!!!include\(([^)]+)\)!!!/g;
+const SNIPPET_IMPORT_RE = /^(\s*)<<<\s+([^\s{]+)(?:\{([^}]*)\})?\s*$/;
+const REGION_MARKER_RE = /^\s*(?:\/\/|#|<!--|\/\*|\{#-?|--|;)?\s*#?(region|endregion)\b\s*([\w-]+)?/i;
+const SNIPPET_LANGUAGES: Record<string, string> = {
+  js: 'js',
+  mjs: 'js',
+  cjs: 'js',
+  ts: 'ts',
+  php: 'php',
+  twig: 'twig',
+  json: 'json',
+  yml: 'yaml',
+  yaml: 'yaml',
+  md: 'markdown',
+  sh: 'bash',
+  bash: 'bash',
+  html: 'html',
+  htm: 'html',
+  vue: 'vue',
+  css: 'css',
+  scss: 'scss',
+  xml: 'xml',
+  sql: 'sql',
+  graphql: 'graphql',
+  gql: 'graphql',
+  env: 'bash',
+};
 const COMPONENT_TAG_RE = /<\/?([A-Za-z][^\s/>]*)(\s[^>]*)?>/g;
 const HTML_TAG_ONLY_RE = /^<[^>]+>$/;
-const INLINE_COMPONENT_TAGS = new Set(['badge', 'cloud', 'journey', 'see', 'since', 'todo']);
-const DROP_COMPONENT_TAGS = new Set(['block', 'browsershot', 'codeplaceholder', 'column', 'columns', 'tab', 'tabs']);
 const STANDARD_HTML_TAGS = new Set([
   'a',
   'abbr',
@@ -89,8 +191,8 @@ const STANDARD_HTML_TAGS = new Set([
   'var'
 ]);
 
-function updateFenceState(line: string, state: FenceState): FenceState {
-  const trimmed = line.trim();
+export function updateFenceState(line: string, state: FenceState): FenceState {
+  const trimmed = line.replace(/^\s*(>\s?)*/, '').trim();
   const marker = trimmed.startsWith('```') ? '```' : trimmed.startsWith('~~~') ? '~~~' : '';
   if (!marker) {
     return state;
@@ -121,85 +223,322 @@ export function stripFrontmatter(content: string): string {
 
 export async function expandIncludeDirectives(
   content: string,
-  options: { repoRoot: string; currentFilePath: string; maxDepth?: number },
+  options: {
+    repoRoot: string;
+    currentFilePath: string;
+    aliasRoot?: string;
+    maxDepth?: number;
+    dependencies?: Set<string>;
+    onError?: (problem: IncludeProblem) => void;
+  },
 ): Promise<string> {
   const repoRoot = path.resolve(options.repoRoot);
+  const aliasRoot = path.resolve(options.aliasRoot ?? repoRoot);
   const maxDepth = options.maxDepth ?? 5;
   const cache = new Map<string, string>();
 
+  const read = async (target: string, filePath: string): Promise<string> => {
+    const { file, selection } = parseIncludeTarget(target);
+    const resolvedPath = resolveIncludePath(file, repoRoot, filePath, aliasRoot);
+    options.dependencies?.add(resolvedPath);
+    let included = cache.get(resolvedPath);
+    if (included === undefined) {
+      try {
+        included = await fs.readFile(resolvedPath, 'utf8');
+      } catch {
+        throw includeError('include-not-found', `Included file not found: ${file}`);
+      }
+      cache.set(resolvedPath, included);
+    }
+    return selectLines(included, selection, file);
+  };
+
+  const fail = (error: unknown, filePath: string, line: number | undefined): string => {
+    if (!options.onError) {
+      throw error;
+    }
+    const code = (error as { code?: unknown }).code;
+    options.onError({
+      code: typeof code === 'string' && code.startsWith('include-') ? code : 'include-failed',
+      message: error instanceof Error ? error.message : String(error),
+      file: filePath,
+      line
+    });
+    return '';
+  };
+
   const expand = async (
     input: string,
     filePath: string,
     depth: number,
     stack: Set<string>,
   ): Promise<string> => {
-    if (depth > maxDepth) {
-      throw new Error(`Include depth exceeded ${maxDepth} at ${filePath}`);
-    }
+    const withSnippets = await expandSnippetImports(
+      input,
+      async (target) => {
+        const { file } = parseIncludeTarget(target);
+        return { code: await read(target, filePath), file };
+      },
+      (error, line) => fail(error, filePath, line),
+    );
 
-    const matches = Array.from(input.matchAll(INCLUDE_DIRECTIVE_RE));
+    const matches = Array.from(withSnippets.matchAll(INCLUDE_DIRECTIVE_RE));
     if (matches.length === 0) {
-      return input;
+      return withSnippets;
     }
 
     let result = '';
     let lastIndex = 0;
+    let searchFrom = 0;
     for (const match of matches) {
       const matchIndex = match.index ?? 0;
-      result += input.slice(lastIndex, matchIndex);
+      result += withSnippets.slice(lastIndex, matchIndex);
       lastIndex = matchIndex + match[0].length;
 
-      const includePath = match[1].trim();
-      const resolvedPath = resolveIncludePath(includePath, repoRoot, filePath);
-
-      if (stack.has(resolvedPath)) {
-        throw new Error(`Include cycle detected at ${resolvedPath}`);
+      const sourceIndex = input.indexOf(match[0], searchFrom);
+      searchFrom = sourceIndex === -1 ? searchFrom : sourceIndex + match[0].length;
+      const line = sourceIndex === -1 ? undefined : input.slice(0, sourceIndex).split('\n').length;
+
+      try {
+        const target = match[1].trim();
+        const resolvedPath = resolveIncludePath(
+          parseIncludeTarget(target).file,
+          repoRoot,
+          filePath,
+          aliasRoot,
+        );
+        if (stack.has(resolvedPath)) {
+          throw includeError('include-cycle', `Include cycle detected at ${resolvedPath}`);
+        }
+        if (depth + 1 > maxDepth) {
+          throw includeError('include-depth', `Include depth exceeded ${maxDepth} at ${filePath}`);
+        }
+
+        const included = await read(target, filePath);
+        stack.add(resolvedPath);
+        try {
+          result += await expand(included, resolvedPath, depth + 1, stack);
+        } finally {
+          stack.delete(resolvedPath);
+        }
+      } catch (error) {
+        result += fail(error, filePath, line);
       }
-
-      let included = cache.get(resolvedPath);
-      if (included === undefined) {
-        included = await fs.readFile(resolvedPath, 'utf8');
-        cache.set(resolvedPath, included);
-      }
-
-      stack.add(resolvedPath);
-      const expanded = await expand(included, resolvedPath, depth + 1, stack);
-      stack.delete(resolvedPath);
-      result += expanded;
     }
 
-    result += input.slice(lastIndex);
+    result += withSnippets.slice(lastIndex);
     return result;
   };
 
   return expand(content, options.currentFilePath, 0, new Set<string>());
 }
 
-export function stripVuePressDirectives(content: string): string {
+export function findIncludePaths(
+  content: string,
+  options: { repoRoot: string; currentFilePath: string; aliasRoot?: string },
+): string[] {
+  const targets = Array.from(content.matchAll(INCLUDE_DIRECTIVE_RE), (match) => match[1].trim());
+  for (const line of content.split('\n')) {
+    const match = line.match(SNIPPET_IMPORT_RE);
+    if (match) {
+      targets.push(match[2]);
+    }
+  }
+
+  const paths: string[] = [];
+  for (const target of targets) {
+    try {
+      paths.push(
+        resolveIncludePath(
+          parseIncludeTarget(target).file,
+          options.repoRoot,
+          options.currentFilePath,
+          options.aliasRoot,
+        ),
+      );
+    } catch {
+      // Includes outside the repo are reported when the page is built.
+    }
+  }
+  return paths;
+}
+
+async function expandSnippetImports(
+  content: string,
+  load: (target: string) => Promise<{ code: string; file: string }>,
+  fail: (error: unknown, line: number) => string,
+): Promise<string> {
+  if (!content.includes('<<<')) {
+    return content;
+  }
+
   const lines = content.split('\n');
   let state: FenceState = { inFence: false, fenceMarker: '' };
   const output: string[] = [];
 
-  for (const line of lines) {
+  for (const [index, line] of lines.entries()) {
     state = updateFenceState(line, state);
-    if (state.inFence) {
+    const match = state.inFence ? null : line.match(SNIPPET_IMPORT_RE);
+    if (!match) {
       output.push(line);
       continue;
     }
 
+    const indent = match[1];
+    const options = (match[3] ?? '').trim().split(/\s+/).filter(Boolean);
+    const ranges = options.filter((option) => /^[\d,\s-]+$/.test(option)).join(',');
+    const language = options.find((option) => !/^[\d,\s-]+$/.test(option));
+    const target = ranges ? `${match[2]}{${ranges}}` : match[2];
+
+    let loaded: { code: string; file: string };
+    try {
+      loaded = await load(target);
+    } catch (error) {
+      output.push(fail(error, index + 1));
+      continue;
+    }
+    const { code, file } = loaded;
+    const lang = language ?? snippetLanguage(file);
+    const longestFence = Math.max(
+      2,
+      ...Array.from(code.matchAll(/`{3,}/g), (run) => run[0].length),
+    );
+    const fence = '`'.repeat(longestFence + 1);
+    const body = code.replace(/\n+$/, '').split('\n');
+    output.push(
+      `${indent}${fence}${lang}`,
+      ...body.map((bodyLine) => `${indent}${bodyLine}`),
+      `${indent}${fence}`,
+    );
+  }
+
+  return output.join('\n');
+}
+
+export function stripVuePressDirectives(
+  content: string,
+  options: {
+    containers?: ContainerModes;
+    components?: ComponentRules;
+    onUnknownComponent?: (name: string) => void;
+  } = {},
+): string {
+  const lines = content.split('\n');
+  let state: FenceState = { inFence: false, fenceMarker: '' };
+  const output: string[] = [];
+  const stack: OpenContainer[] = [];
+  const modes = options.containers ?? {};
+  const components: ComponentState = {
+    rules: componentRules(options.components),
+    onUnknown: options.onUnknownComponent
+  };
+  let pendingBreak: string | undefined;
+  const push = (...values: string[]) => {
+    if (pendingBreak !== undefined && values[0].trim().replace(/^(>\s*)+/, '')) {
+      output.push(pendingBreak);
+    }
+    pendingBreak = undefined;
+    output.push(...values);
+  };
+
+  for (const line of lines) {
+    const top = stack[stack.length - 1];
+    const dropping =
+      stack.some((container) => container.mode === 'drop') || components.dropping !== undefined;
+    const prefix = top?.prefix ?? '';
+    const wasInFence = state.inFence;
+    state = updateFenceState(line, state);
+    if (state.inFence || wasInFence) {
+      if (dropping) {
+        continue;
+      }
+      const label = !wasInFence && top?.labelsCode ? codeBlockLabel(line) : undefined;
+      if (label) {
+        push(`${prefix}**${label.label}**`, `${prefix}${label.fence}`);
+      } else {
+        push(withPrefix(prefix, line));
+      }
+      continue;
+    }
+
     const trimmed = line.trim();
-    if (trimmed.startsWith(':::') || trimmed.startsWith('!!!')) {
+    const opening = trimmed.match(CONTAINER_OPEN_RE);
+    if (opening) {
+      const type = opening[2].toLowerCase();
+      const mode = modes[type] ?? modes['*'] ?? 'keep';
+      const isCode = CODE_CONTAINER_TYPES.has(type);
+      const wraps = mode === 'keep' && !isCode;
+      stack.push({
+        colons: opening[1].length,
+        mode,
+        labelsCode: mode === 'keep' && isCode,
+        prefix: wraps ? `${prefix}> ` : prefix
+      });
+      if (wraps && !dropping) {
+        const last = output[output.length - 1];
+        if (last !== undefined && last.trim().replace(/^(>\s*)+/, '')) {
+          pendingBreak = withPrefix(prefix, '');
+        }
+        push(`${prefix}> **${containerHeading(type, opening[3].trim())}**`, `${prefix}>`);
+      }
+      continue;
+    }
+
+    const closing = trimmed.match(CONTAINER_CLOSE_RE);
+    if (closing) {
+      if (top && closing[1].length >= top.colons) {
+        stack.pop();
+        trimTrailingQuoteLines(output, top.prefix);
+        const parentPrefix = stack[stack.length - 1]?.prefix ?? '';
+        if (top.prefix !== parentPrefix) {
+          pendingBreak = withPrefix(parentPrefix, '');
+        }
+      }
+      continue;
+    }
+
+    if (stack.some((container) => container.mode === 'drop') || trimmed.startsWith('!!!')) {
       continue;
     }
 
     const withoutComments = stripHtmlComments(line);
-    const replaced = replaceComponentTags(withoutComments);
-    output.push(replaced);
+    const replaced = replaceComponentTags(withoutComments, components);
+    if (dropping && !replaced.trim()) {
+      continue;
+    }
+    push(withPrefix(prefix, replaced));
   }
 
   return output.join('\n');
 }
 
+function withPrefix(prefix: string, line: string): string {
+  if (!prefix) {
+    return line;
+  }
+  return line.trim() ? `${prefix}${line}` : prefix.trimEnd();
+}
+
+function trimTrailingQuoteLines(output: string[], prefix: string): void {
+  while (prefix && output.length > 0 && output[output.length - 1] === prefix.trimEnd()) {
+    output.pop();
+  }
+}
+
+function containerHeading(type: string, title: string): string {
+  const label = CONTAINER_LABELS[type] ?? `${type.charAt(0).toUpperCase()}${type.slice(1)}`;
+  return title ? `${label}: ${title}` : label;
+}
+
+function codeBlockLabel(line: string): { label: string; fence: string } | undefined {
+  const match = line.match(/^(\s*(?:```|~~~)\s*)([\w+#.-]*)\s+(.+?)\s*$/);
+  if (!match) {
+    return undefined;
+  }
+  const label = match[3].replace(/^\[(.*)\]$/, '$1').trim();
+  return label ? { label, fence: `${match[1]}${match[2]}` } : undefined;
+}
+
 export function extractTitle(content: string, fallback: string): string {
   const lines = content.split('\n');
   let state: FenceState = { inFence: false, fenceMarker: '' };
@@ -238,15 +577,15 @@ export function stripLeadingH1(content: string): string {
 
 export function docPathToUrl(relativePath: string, baseUrl: string): string {
   const normalizedBase = baseUrl.endsWith('/') ? baseUrl : `${baseUrl}/`;
+  return `${normalizedBase}${docPathToUrlPath(relativePath)}`;
+}
+
+export function docPathToUrlPath(relativePath: string): string {
   const posixPath = relativePath.replace(/\\/g, '/').replace(/^\//, '');
-  const mapped = mapDocPath(posixPath);
-  return `${normalizedBase}${mapped.replace(/^\//, '')}`;
+  return mapDocPath(posixPath).replace(/^\//, '');
 }
 
-export function normalizeLinks(
-  content: string,
-  options: { baseUrl: string; currentFilePath: string },
-): string {
+export function normalizeLinks(content: string, options: LinkOptions): string {
   const lines = content.split('\n');
   let state: FenceState = { inFence: false, fenceMarker: '' };
   const output: string[] = [];
@@ -258,22 +597,33 @@ export function normalizeLinks(
       continue;
     }
 
-    const normalizedInline = line.replace(INLINE_LINK_RE, (match, text, destination) => {
-      const normalizedDestination = normalizeLinkDestination(
-        destination,
-        options.currentFilePath,
-        options.baseUrl,
-      );
-      return `[${text}](${normalizedDestination})`;
-    });
+    const codeSpans: string[] = [];
+    const protectedLine = line.replace(
+      CODE_SPAN_RE,
+      (span) => `\uE000${codeSpans.push(span) - 1}\uE001`,
+    );
 
-    const normalizedReference = normalizeReferenceDefinition(
-      normalizedInline,
-      options.currentFilePath,
-      options.baseUrl,
+    const normalizedInline = protectedLine.replace(
+      INLINE_LINK_RE,
+      (match, text: string, destination) => {
+        const normalizedDestination = normalizeLinkDestination(destination, options);
+        return `[${normalizeImages(text, options)}](${normalizedDestination})`;
+      },
+    );
+    const normalizedImages = normalizeImages(normalizedInline, options);
+    const normalizedHtml = normalizedImages.replace(HTML_TAG_RE, (tag, name: string) =>
+      normalizeHtmlTag(tag, name, options),
+    );
+    const normalizedAutolinks = normalizedHtml.replace(
+      AUTOLINK_RE,
+      (match, url: string) => `<${normalizeDocLink(url, options)}>`,
     );
 
-    output.push(normalizedReference);
+    const normalizedReference = normalizeReferenceDefinition(normalizedAutolinks, options);
+
+    output.push(
+      normalizedReference.replace(/\uE000(\d+)\uE001/g, (_, index) => codeSpans[Number(index)]),
+    );
   }
 
   return output.join('\n');
@@ -298,7 +648,7 @@ export function extractSummary(content: string): string {
       continue;
     }
 
-    if (HEADING_RE.test(trimmed) || LIST_RE.test(trimmed)) {
+    if (HEADING_RE.test(trimmed) || LIST_RE.test(trimmed) || trimmed.startsWith('>')) {
       continue;
     }
     if (HTML_TAG_ONLY_RE.test(trimmed)) {
@@ -311,27 +661,184 @@ export function extractSummary(content: string): string {
   return cleanSummaryText(paragraph.join(' '));
 }
 
-function normalizeReferenceDefinition(
-  line: string,
+export function slugify(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/\p{Cc}/gu, '')
+    .replace(SLUG_SPECIAL_RE, '-')
+    .replace(/-{2,}/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .replace(/^(\d)/, '_$1')
+    .toLowerCase();
+}
+
+export function extractHeadings(content: string): Heading[] {
+  const lines = content.split('\n');
+  let state: FenceState = { inFence: false, fenceMarker: '' };
+  const headings: Heading[] = [];
+  const seen = new Set<string>();
+
+  for (const line of lines) {
+    state = updateFenceState(line, state);
+    if (state.inFence) {
+      continue;
+    }
+    const heading = parseHeadingLine(line);
+    if (!heading) {
+      continue;
+    }
+
+    const { level, text } = heading;
+    let slug = heading.slug;
+    if (!slug) {
+      const base = slugify(text);
+      slug = base;
+      for (let i = 2; seen.has(slug); i += 1) {
+        slug = `${base}-${i}`;
+      }
+    }
+    seen.add(slug);
+    headings.push({ level, text, slug });
+  }
+
+  return headings;
+}
+
+export function parseHeadingLine(line: string): Heading | undefined {
+  const match = line.match(HEADING_LINE_RE);
+  if (!match) {
+    return undefined;
+  }
+
+  let raw = match[2];
+  let slug = '';
+  const custom = raw.match(CUSTOM_ANCHOR_RE);
+  if (custom) {
+    slug = custom[1];
+    raw = raw.slice(0, custom.index);
+  }
+  return { level: match[1].length, text: headingText(raw), slug };
+}
+
+export function extractHtmlAnchors(content: string): string[] {
+  const anchors: string[] = [];
+  for (const match of content.matchAll(/<[A-Za-z][^>]*\s(?:id|name)\s*=\s*"([^"]+)"[^>]*>/g)) {
+    anchors.push(match[1]);
+  }
+  return anchors;
+}
+
+export function findLinks(content: string): LinkReference[] {
+  const lines = content.split('\n');
+  let state: FenceState = { inFence: false, fenceMarker: '' };
+  const links: LinkReference[] = [];
+
+  lines.forEach((line, index) => {
+    state = updateFenceState(line, state);
+    if (state.inFence) {
+      return;
+    }
+    for (const match of line.matchAll(INLINE_LINK_RE)) {
+      const destination = linkUrl(match[2]);
+      if (destination) {
+        links.push({ destination, line: index + 1 });
+      }
+    }
+    const reference = line.match(REFERENCE_DEFINITION_RE);
+    if (reference) {
+      const destination = linkUrl(reference[2]);
+      if (destination) {
+        links.push({ destination, line: index + 1 });
+      }
+    }
+  });
+
+  return links;
+}
+
+export function resolveDocLink(
+  url: string,
   currentFilePath: string,
   baseUrl: string,
+  aliasPath?: string,
 ): string {
-  const match = line.match(/^(\s*\[[^\]]+\]:\s*)(\S+)([\s\S]*)$/);
+  return normalizeDocLink(url, { baseUrl, currentFilePath, aliasPath });
+}
+
+function headingText(raw: string): string {
+  return raw
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/<[^>]+>/g, '')
+    .replace(/`([^`]*)`/g, '$1')
+    .replace(/(\*\*|__|\*|_)(\S(?:.*?\S)?)\1/g, '$2')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function linkUrl(rawDestination: string): string {
+  const inner = rawDestination.trim();
+  if (inner.startsWith('<')) {
+    const end = inner.indexOf('>');
+    return end === -1 ? inner : inner.slice(1, end);
+  }
+  return inner.split(/\s+/)[0] ?? '';
+}
+
+function normalizeImages(text: string, options: LinkOptions): string {
+  return text.replace(IMAGE_RE, (match, alt: string, destination: string) => {
+    const normalizedDestination = normalizeLinkDestination(destination, options);
+    if (options.images === 'text') {
+      return imageText(alt, linkUrl(normalizedDestination));
+    }
+    return `![${alt}](${normalizedDestination})`;
+  });
+}
+
+function normalizeHtmlTag(tag: string, name: string, options: LinkOptions): string {
+  if (name.toLowerCase() === 'img' && options.images === 'text') {
+    const attributes = Object.fromEntries(
+      Array.from(tag.matchAll(/\s([\w-]+)\s*=\s*(["'])(.*?)\2/g), (match) => [
+        match[1].toLowerCase(),
+        match[3],
+      ]),
+    );
+    if (attributes.src) {
+      return imageText(attributes.alt ?? '', normalizeDocLink(attributes.src, options));
+    }
+  }
+  return tag.replace(URL_ATTRIBUTE_RE, (match, prefix: string, quote: string, value: string) => {
+    const normalized = /srcset/i.test(prefix)
+      ? value
+          .split(',')
+          .map((candidate) =>
+            candidate.trim().replace(/^\S+/, (url) => normalizeDocLink(url, options)),
+          )
+          .join(', ')
+      : normalizeDocLink(value, options);
+    return `${prefix}${quote}${normalized}${quote}`;
+  });
+}
+
+function imageText(alt: string, url: string): string {
+  const label = alt.trim() ? `Image: ${alt.trim()}` : 'Image';
+  return `${label} (${url})`;
+}
+
+function normalizeReferenceDefinition(line: string, options: LinkOptions): string {
+  const match = line.match(REFERENCE_DEFINITION_RE);
   if (!match) {
     return line;
   }
   const prefix = match[1];
   const destination = match[2];
   const rest = match[3] ?? '';
-  const normalizedDestination = normalizeLinkDestination(destination, currentFilePath, baseUrl);
+  const normalizedDestination = normalizeLinkDestination(destination, options);
   return `${prefix}${normalizedDestination}${rest}`;
 }
 
-function normalizeLinkDestination(
-  rawDestination: string,
-  currentFilePath: string,
-  baseUrl: string,
-): string {
+function normalizeLinkDestination(rawDestination: string, options: LinkOptions): string {
   const leading = rawDestination.match(/^\s*/)?.[0] ?? '';
   const trailing = rawDestination.match(/\s*$/)?.[0] ?? '';
   const inner = rawDestination.slice(leading.length, rawDestination.length - trailing.length);
@@ -345,7 +852,7 @@ function normalizeLinkDestination(
     if (end !== -1) {
       const url = inner.slice(1, end);
       const rest = inner.slice(end + 1);
-      const normalized = normalizeDocLink(url, currentFilePath, baseUrl);
+      const normalized = normalizeDocLink(url, options);
       return `${leading}<${normalized}>${rest}${trailing}`;
     }
   }
@@ -357,11 +864,12 @@ function normalizeLinkDestination(
 
   const url = match[1];
   const rest = match[2] ?? '';
-  const normalized = normalizeDocLink(url, currentFilePath, baseUrl);
+  const normalized = normalizeDocLink(url, options);
   return `${leading}${normalized}${rest}${trailing}`;
 }
 
-function normalizeDocLink(url: string, currentFilePath: string, baseUrl: string): string {
+function normalizeDocLink(url: string, options: LinkOptions): string {
+  const { baseUrl, currentFilePath, aliasPath } = options;
   if (!url || url.startsWith('#')) {
     return url;
   }
@@ -383,27 +891,47 @@ function normalizeDocLink(url: string, currentFilePath: string, baseUrl: string)
     pathPart = pathPart.slice(0, queryIndex);
   }
 
-  let isRoot = false;
-  if (pathPart.startsWith('/')) {
-    isRoot = true;
-    pathPart = pathPart.replace(/^\/docs\/5\.x\//, '');
-    pathPart = pathPart.replace(/^\/+/, '');
-  }
-
   if (!pathPart) {
     return url;
   }
 
-  let resolvedPath = pathPart;
-  if (!isRoot) {
+  let resolvedPath: string;
+  if (pathPart.startsWith('@/') && aliasPath !== undefined) {
+    resolvedPath = path.posix.normalize(path.posix.join(aliasPath, pathPart.slice(2)));
+  } else if (pathPart.startsWith('/')) {
+    const trailingSlash = pathPart.endsWith('/') ? '/' : '';
+    resolvedPath = path.posix.relative(baseUrlPath(baseUrl), path.posix.normalize(pathPart));
+    resolvedPath = resolvedPath ? `${resolvedPath}${trailingSlash}` : '';
+  } else {
     resolvedPath = path.posix.normalize(
       path.posix.join(path.posix.dirname(currentFilePath), pathPart),
     );
   }
 
-  const mappedPath = mapDocPath(resolvedPath);
+  const mappedPath = mapDocPath(resolvedPath.replace(/^\.\/?$/, '')).replace(/^\//, '');
+  return `${joinUrl(baseUrl, mappedPath)}${query}${hash}`;
+}
+
+function joinUrl(baseUrl: string, relativePath: string): string {
   const normalizedBase = baseUrl.endsWith('/') ? baseUrl : `${baseUrl}/`;
-  return `${normalizedBase}${mappedPath.replace(/^\//, '')}${query}${hash}`;
+  if (!/^\.\.(\/|$)/.test(relativePath)) {
+    return `${normalizedBase}${relativePath}`;
+  }
+  try {
+    return new URL(relativePath, normalizedBase).href;
+  } catch {
+    return path.posix.join(normalizedBase, relativePath);
+  }
+}
+
+function baseUrlPath(baseUrl: string): string {
+  let pathname = baseUrl;
+  try {
+    pathname = new URL(baseUrl).pathname;
+  } catch {
+    // Relative base URLs are already a path.
+  }
+  return pathname.endsWith('/') ? pathname : `${pathname}/`;
 }
 
 function mapDocPath(docPath: string): string {
@@ -431,9 +959,16 @@ function cleanSummaryText(text: string): string {
   return cleaned;
 }
 
-function resolveIncludePath(includePath: string, repoRoot: string, currentFilePath: string): string {
+function resolveIncludePath(
+  includePath: string,
+  repoRoot: string,
+  currentFilePath: string,
+  aliasRoot: string = repoRoot,
+): string {
   let resolvedPath = '';
-  if (includePath.startsWith('/')) {
+  if (includePath.startsWith('@/')) {
+    resolvedPath = path.join(aliasRoot, includePath.slice(2));
+  } else if (includePath.startsWith('/')) {
     resolvedPath = path.join(repoRoot, includePath.replace(/^\/+/, ''));
   } else if (includePath.startsWith('.')) {
     resolvedPath = path.resolve(path.dirname(currentFilePath), includePath);
@@ -447,54 +982,173 @@ function resolveIncludePath(includePath: string, repoRoot: string, currentFilePa
     normalizedPath !== normalizedRoot &&
     !normalizedPath.startsWith(`${normalizedRoot}${path.sep}`)
   ) {
-    throw new Error(`Include path escapes repo root: ${includePath}`);
+    throw includeError('include-outside-repo', `Include path escapes repo root: ${includePath}`);
   }
 
   return normalizedPath;
 }
 
+function includeError(code: string, message: string): Error {
+  return Object.assign(new Error(message), { code });
+}
+
+function parseIncludeTarget(target: string): { file: string; selection: LineSelection } {
+  const match = target.match(/^(.*?)(?:\{([^}]*)\})?$/);
+  let file = match?.[1] ?? target;
+  const ranges = match?.[2]?.trim();
+
+  let region: string | undefined;
+  const hashIndex = file.lastIndexOf('#');
+  if (hashIndex > 0) {
+    region = file.slice(hashIndex + 1).trim();
+    file = file.slice(0, hashIndex);
+  }
+
+  return { file: file.trim(), selection: { region, ranges: ranges || undefined } };
+}
+
+function selectLines(content: string, selection: LineSelection, file: string): string {
+  let lines = content.replace(/\r\n/g, '\n').split('\n');
+
+  if (selection.region) {
+    const start = lines.findIndex((line) => regionMarker(line, 'region') === selection.region);
+    if (start === -1) {
+      throw includeError('include-region', `Region "${selection.region}" not found in ${file}`);
+    }
+    let depth = 0;
+    let end = lines.length;
+    for (let i = start + 1; i < lines.length; i += 1) {
+      if (regionMarker(lines[i], 'region') !== undefined) {
+        depth += 1;
+      } else if (regionMarker(lines[i], 'endregion') !== undefined) {
+        if (depth === 0) {
+          end = i;
+          break;
+        }
+        depth -= 1;
+      }
+    }
+    lines = dedent(lines.slice(start + 1, end));
+  }
+
+  if (selection.ranges) {
+    const picked: string[] = [];
+    for (const part of selection.ranges.split(',')) {
+      const range = part.trim().match(/^(\d+)(?:-(\d*))?$/);
+      if (!range) {
+        throw includeError('include-range', `Invalid line range "${part.trim()}" for ${file}`);
+      }
+      const from = Number(range[1]);
+      const to = range[2] === undefined ? from : range[2] === '' ? lines.length : Number(range[2]);
+      picked.push(...lines.slice(from - 1, to));
+    }
+    lines = picked;
+  }
+
+  if (selection.region || selection.ranges) {
+    lines = lines.filter(
+      (line) =>
+        regionMarker(line, 'region') === undefined && regionMarker(line, 'endregion') === undefined,
+    );
+  }
+
+  return lines.join('\n');
+}
+
+function regionMarker(line: string, kind: 'region' | 'endregion'): string | undefined {
+  const match = line.match(REGION_MARKER_RE);
+  if (!match || match[1].toLowerCase() !== kind) {
+    return undefined;
+  }
+  return match[2] ?? '';
+}
+
+function dedent(lines: string[]): string[] {
+  const indents = lines
+    .filter((line) => line.trim())
+    .map((line) => line.length - line.trimStart().length);
+  const minIndent = indents.length > 0 ? Math.min(...indents) : 0;
+  return lines.map((line) => line.slice(minIndent));
+}
+
+function snippetLanguage(file: string): string {
+  const extension = path.extname(file).slice(1).toLowerCase();
+  return SNIPPET_LANGUAGES[extension] ?? extension;
+}
+
 function stripHtmlComments(line: string): string {
   return line.replace(/<!--[\s\S]*?-->/g, '');
 }
 
-function replaceComponentTags(line: string): string {
-  return line.replace(COMPONENT_TAG_RE, (match, tagName: string, attrPart: string = '') => {
-    const isClosing = match.startsWith('</');
-    const isSelfClosing = match.endsWith('/>');
-    const lowerName = tagName.toLowerCase();
-
-    if (STANDARD_HTML_TAGS.has(lowerName)) {
-      return match;
+function replaceComponentTags(line: string, state: ComponentState): string {
+  let output = '';
+  let last = 0;
+  for (const match of line.matchAll(COMPONENT_TAG_RE)) {
+    if (!state.dropping) {
+      output += line.slice(last, match.index);
     }
+    last = match.index + match[0].length;
+    output += renderComponentTag(match[0], match[1], match[2] ?? '', state);
+  }
+  if (!state.dropping) {
+    output += line.slice(last);
+  }
+  return output;
+}
 
-    if (DROP_COMPONENT_TAGS.has(lowerName)) {
-      return '';
+function renderComponentTag(
+  match: string,
+  tagName: string,
+  attrPart: string,
+  state: ComponentState,
+): string {
+  const isClosing = match.startsWith('</');
+  const isSelfClosing = match.endsWith('/>');
+  const key = componentKey(tagName);
+
+  if (state.dropping) {
+    if (key === state.dropping.key && !isSelfClosing) {
+      state.dropping.depth += isClosing ? -1 : 1;
+      if (state.dropping.depth === 0) {
+        state.dropping = undefined;
+      }
     }
+    return '';
+  }
 
+  const rule = state.rules[key];
+  if (!rule) {
+    if (STANDARD_HTML_TAGS.has(tagName.toLowerCase())) {
+      return match;
+    }
     if (isClosing) {
       return '';
     }
-
+    const attrs = parseAttributes(attrPart);
+    const attrText = attrs.text ?? attrs.label ?? attrs.title ?? '';
+    if (isComponentName(tagName)) {
+      state.onUnknown?.(tagName);
+      return isSelfClosing ? attrText : '';
+    }
     if (tagName.includes(':')) {
       return tagName;
     }
-
-    const attrs = parseAttributes(attrPart);
-    if (INLINE_COMPONENT_TAGS.has(lowerName) || isSelfClosing) {
-      const text = componentText(tagName, attrs);
-      return text || tagName;
-    }
-
-    if (Object.keys(attrs).length > 0) {
-      return '';
+    if (isSelfClosing) {
+      return attrText || tagName;
     }
+    return Object.keys(attrs).length > 0 ? '' : tagName;
+  }
 
-    if (/^[A-Z]/.test(tagName)) {
-      return '';
+  if (rule === 'inner' || isClosing) {
+    return '';
+  }
+  if (rule === 'drop') {
+    if (!isSelfClosing) {
+      state.dropping = { key, depth: 1 };
     }
-
-    return tagName;
-  });
+    return '';
+  }
+  return renderTemplate(rule.template, parseAttributes(attrPart)) || tagName;
 }
 
 function parseAttributes(raw: string): Record<string, string> {
@@ -507,46 +1161,3 @@ function parseAttributes(raw: string): Record<string, string> {
   }
   return attrs;
 }
-
-function componentText(tagName: string, attrs: Record<string, string>): string {
-  const name = tagName.toLowerCase();
-  if (name === 'since') {
-    const ver = attrs.ver ?? attrs.version ?? '';
-    const feature = attrs.feature ?? attrs.text ?? attrs.label ?? '';
-    if (ver && feature) {
-      return `Since ${ver}: ${feature}`;
-    }
-    if (ver) {
-      return `Since ${ver}`;
-    }
-    if (feature) {
-      return `Since: ${feature}`;
-    }
-    return 'Since';
-  }
-  if (name === 'badge') {
-    return attrs.text ?? attrs.label ?? attrs.title ?? '';
-  }
-  if (name === 'todo') {
-    const notes = attrs.notes ?? attrs.text ?? attrs.label ?? '';
-    return notes ? `TODO: ${notes}` : 'TODO';
-  }
-  if (name === 'journey') {
-    const pathValue = attrs.path ?? attrs.label ?? attrs.text ?? '';
-    return pathValue ? `Journey: ${pathValue}` : 'Journey';
-  }
-  if (name === 'see') {
-    const label = attrs.label ?? attrs.text ?? attrs.title ?? '';
-    const description = attrs.description ?? attrs.desc ?? '';
-    const target = attrs.path ?? attrs.url ?? '';
-    const parts = [label, description, target].filter(Boolean);
-    if (parts.length === 0) {
-      return 'See';
-    }
-    return parts.join(' - ');
-  }
-  if (name === 'cloud') {
-    return '';
-  }
-  return attrs.text ?? attrs.label ?? attrs.title ?? '';
-}
@@ -0,0 +1,304 @@
+import fs from 'node:fs/promises';
+import readline from 'node:readline';
+import { isPlainObject } from './schema.js';
+import { loadSearchIndex, search, type SearchIndex } from './search.js';
+
+const PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+type RequestId = string | number | null;
+
+type JsonRpcResponse = {
+  jsonrpc: '2.0';
+  id: RequestId;
+  result?: unknown;
+  error?: { code: number; message: string };
+};
+
+type ToolResult = {
+  content: { type: 'text'; text: string }[];
+  isError?: boolean;
+};
+
+type Tool = {
+  name: string;
+  description: string;
+  inputSchema: Record<string, unknown>;
+  run: (index: SearchIndex, args: Record<string, unknown>) => string;
+};
+
+const SOURCE_PROPERTY = {
+  type: 'string',
+  description: 'Documentation set id, e.g. "5.x". Defaults to all sets.'
+};
+
+const TOOLS: Tool[] = [
+  {
+    name: 'list_sections',
+    description:
+      'List the sections of the Craft docs (the llms.txt groups) with the title, path and URL of every page.',
+    inputSchema: { type: 'object', properties: { source: SOURCE_PROPERTY } },
+    run: listSections
+  },
+  {
+    name: 'get_page',
+    description:
+      'Get the cleaned markdown of one docs page by its path (e.g. "system/project-config.md") or its published URL.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        path: { type: 'string', description: 'Page path relative to the docs set, with or without .md' },
+        url: { type: 'string', description: 'Published page URL; an #anchor is ignored' },
+        source: SOURCE_PROPERTY
+      }
+    },
+    run: getPage
+  },
+  {
+    name: 'search_docs',
+    description: 'Search the Craft docs and return the best matching pages with URLs and snippets.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'Search terms' },
+        group: { type: 'string', description: 'Only pages whose section title contains this text' },
+        source: SOURCE_PROPERTY,
+        limit: { type: 'integer', minimum: 1, description: 'Number of results (default 10)' }
+      },
+      required: ['query']
+    },
+    run: searchDocs
+  }
+];
+
+export function createIndexLoader(indexPath: string): () => Promise<SearchIndex> {
+  let cached: SearchIndex | undefined;
+  let cachedMtime = 0;
+  return async () => {
+    const { mtimeMs } = await fs.stat(indexPath);
+    if (!cached || mtimeMs !== cachedMtime) {
+      cached = await loadSearchIndex(indexPath);
+      cachedMtime = mtimeMs;
+    }
+    return cached;
+  };
+}
+
+export function createMcpHandler(
+  loadIndex: () => Promise<SearchIndex>,
+  version: string,
+): (message: unknown) => Promise<JsonRpcResponse | undefined> {
+  return async (message) => {
+    if (!isPlainObject(message) || typeof message.method !== 'string') {
+      return rpcError(null, -32600, 'Invalid request');
+    }
+    const id = (message.id ?? null) as RequestId;
+    const isNotification = message.id === undefined;
+    const params = isPlainObject(message.params) ? message.params : {};
+
+    if (isNotification) {
+      return undefined;
+    }
+
+    // Errors thrown while handling a valid request are reported against its id.
+    try {
+      switch (message.method) {
+        case 'initialize': {
+          const requested = params.protocolVersion;
+          const index = await loadIndex();
+          return rpcResult(id, {
+            protocolVersion:
+              typeof requested === 'string' && PROTOCOL_VERSIONS.includes(requested)
+                ? requested
+                : PROTOCOL_VERSIONS[0],
+            capabilities: { tools: {} },
+            serverInfo: { name: 'craft-llms', version },
+            instructions: `Craft CMS documentation. ${snapshotLine(index)}`
+          });
+        }
+        case 'ping':
+          return rpcResult(id, {});
+        case 'tools/list':
+          return rpcResult(id, {
+            tools: TOOLS.map(({ name, description, inputSchema }) => ({ name, description, inputSchema }))
+          });
+        case 'tools/call': {
+          const tool = TOOLS.find((entry) => entry.name === params.name);
+          if (!tool) {
+            return rpcError(id, -32602, `Unknown tool: ${String(params.name)}`);
+          }
+          const args = isPlainObject(params.arguments) ? params.arguments : {};
+          return rpcResult(id, await callTool(tool, args, loadIndex));
+        }
+        default:
+          return rpcError(id, -32601, `Method not found: ${message.method}`);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return rpcError(id, -32603, errorMessage);
+    }
+  };
+}
+
+export async function runMcpServer(
+  loadIndex: () => Promise<SearchIndex>,
+  version: string,
+): Promise<void> {
+  const handle = createMcpHandler(loadIndex, version);
+  const lines = readline.createInterface({ input: process.stdin, crlfDelay: Infinity });
+
+  for await (const line of lines) {
+    if (!line.trim()) {
+      continue;
+    }
+    let response: JsonRpcResponse | undefined;
+    try {
+      response = await handle(JSON.parse(line));
+    } catch (error) {
+      // Only a line that is not JSON gets here; there is no request id to answer with.
+      response = rpcError(null, -32700, error instanceof Error ? error.message : String(error));
+    }
+    if (response) {
+      process.stdout.write(`${JSON.stringify(response)}\n`);
+    }
+  }
+}
+
+async function callTool(
+  tool: Tool,
+  args: Record<string, unknown>,
+  loadIndex: () => Promise<SearchIndex>,
+): Promise<ToolResult> {
+  try {
+    const index = await loadIndex();
+    const text = tool.run(index, args);
+    return { content: [{ type: 'text', text: `${text}\n\n${snapshotLine(index)}` }] };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { content: [{ type: 'text', text: message }], isError: true };
+  }
+}
+
+function listSections(index: SearchIndex, args: Record<string, unknown>): string {
+  const source = optionalString(args, 'source');
+  const lines: string[] = [];
+  for (const entry of index.sources) {
+    if (source && entry.id !== source) {
+      continue;
+    }
+    lines.push(`# ${entry.title} (${entry.id})`, '');
+    let group: string | undefined;
+    for (const doc of index.docs) {
+      if (doc.source !== entry.id) {
+        continue;
+      }
+      if (doc.group !== group) {
+        group = doc.group;
+        lines.push('', `## ${group}`);
+      }
+      lines.push(`- ${doc.title} — ${doc.relPath} (${doc.url})`);
+    }
+    lines.push('');
+  }
+  if (lines.length === 0) {
+    throw new Error(`Unknown docs set: ${source}. Available: ${sourceIds(index)}`);
+  }
+  return lines.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+function getPage(index: SearchIndex, args: Record<string, unknown>): string {
+  const source = optionalString(args, 'source');
+  const url = optionalString(args, 'url');
+  const pagePath = optionalString(args, 'path');
+  if (!url && !pagePath) {
+    throw new Error('Pass either path or url.');
+  }
+
+  const doc = url
+    ? index.docs.find(
+        (entry) => (!source || entry.source === source) && urlCandidates(url).includes(entry.url),
+      )
+    : findByPath(index, pagePath ?? '', source);
+  if (!doc) {
+    throw new Error(`No page found for ${url ?? pagePath}.`);
+  }
+  return [`# ${doc.title}`, `Source: ${doc.source} — ${doc.url}`, '', doc.body].join('\n');
+}
+
+function searchDocs(index: SearchIndex, args: Record<string, unknown>): string {
+  const query = optionalString(args, 'query');
+  if (!query) {
+    throw new Error('query is required.');
+  }
+  const limit = typeof args.limit === 'number' && args.limit > 0 ? Math.floor(args.limit) : 10;
+  const results = search(index, query, {
+    limit,
+    group: optionalString(args, 'group'),
+    source: optionalString(args, 'source')
+  });
+  if (results.length === 0) {
+    return `No matches for "${query}".`;
+  }
+  return results
+    .map(
+      (result, position) =>
+        `${position + 1}. ${result.title} (${result.source}, ${result.relPath})\n   ${result.url}\n   ${result.snippet}`,
+    )
+    .join('\n');
+}
+
+function urlCandidates(url: string): string[] {
+  const bare = url.replace(/[?#].*$/, '');
+  if (bare.endsWith('/')) {
+    return [bare, `${bare}index.html`];
+  }
+  if (bare.endsWith('.html')) {
+    return [bare];
+  }
+  return [bare, `${bare}.html`, `${bare}/index.html`];
+}
+
+function findByPath(
+  index: SearchIndex,
+  pagePath: string,
+  source: string | undefined,
+): SearchIndex['docs'][number] | undefined {
+  let relPath = pagePath.replace(/[?#].*$/, '').replace(/^\/+/, '');
+  const prefix = index.sources.find((entry) => relPath.startsWith(`${entry.id}/`));
+  if (prefix && !source) {
+    source = prefix.id;
+    relPath = relPath.slice(prefix.id.length + 1);
+  }
+
+  const stem = relPath.replace(/\.(md|html)$/, '').replace(/\/$/, '');
+  const candidates = stem
+    ? [`${stem}.md`, `${stem}/README.md`, `${stem}/index.md`]
+    : ['README.md', 'index.md'];
+  return index.docs.find(
+    (entry) => (!source || entry.source === source) && candidates.includes(entry.relPath),
+  );
+}
+
+function snapshotLine(index: SearchIndex): string {
+  const sets = index.sources.map((entry) => {
+    const ref = entry.ref ? `ref ${entry.ref}, ` : '';
+    return `${entry.id} (${ref}commit ${entry.commit}, updated ${entry.timestamp})`;
+  });
+  return `Snapshot: ${sets.join('; ')}.`;
+}
+
+function sourceIds(index: SearchIndex): string {
+  return index.sources.map((entry) => entry.id).join(', ');
+}
+
+function optionalString(args: Record<string, unknown>, key: string): string | undefined {
+  const value = args[key];
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+function rpcResult(id: RequestId, result: unknown): JsonRpcResponse {
+  return { jsonrpc: '2.0', id, result };
+}
+
+function rpcError(id: RequestId, code: number, message: string): JsonRpcResponse {
+  return { jsonrpc: '2.0', id, error: { code, message } };
+}
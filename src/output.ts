@@ -0,0 +1,145 @@
+import { createHash } from 'node:crypto';
+import fs from 'node:fs/promises';
+import { createRequire } from 'node:module';
+import path from 'node:path';
+
+const require = createRequire(import.meta.url);
+const pkg = require('../../package.json') as { name: string; version: string };
+
+export const TOOL_NAME = pkg.name;
+export const TOOL_VERSION = pkg.version;
+export const MANIFEST_FILE = 'manifest.json';
+
+export type ManifestSource = {
+  id: string;
+  commit: string;
+  ref?: string;
+  timestamp: string;
+  pages: number;
+};
+
+export type ManifestFile = {
+  path: string;
+  bytes: number;
+  sha256: string;
+};
+
+export type BuildManifest = {
+  tool: { name: string; version: string };
+  configHash: string;
+  pages: number;
+  sources: ManifestSource[];
+  files: ManifestFile[];
+};
+
+export async function stageOutputDir(outputDir: string): Promise<string> {
+  await fs.mkdir(path.dirname(outputDir), { recursive: true });
+  return fs.mkdtemp(path.join(path.dirname(outputDir), `.${path.basename(outputDir)}-`));
+}
+
+// Returns the manifest of the outputs an earlier build published. An output directory that has
+// other files but no manifest was not written by craft-llms and is only written into with force.
+export async function claimOutputDir(
+  outputDir: string,
+  force: boolean,
+): Promise<BuildManifest | undefined> {
+  let manifest: BuildManifest | undefined;
+  try {
+    manifest = JSON.parse(await fs.readFile(path.join(outputDir, MANIFEST_FILE), 'utf8'));
+  } catch {
+    manifest = undefined;
+  }
+  if (manifest && Array.isArray(manifest.files)) {
+    return manifest;
+  }
+
+  const entries = await fs.readdir(outputDir).catch(() => []);
+  if (entries.length > 0 && !force) {
+    throw new Error(
+      `Output directory ${outputDir} has files but no ${MANIFEST_FILE}, so it was not written by craft-llms. Pass --force to build into it anyway; its other files are left alone.`,
+    );
+  }
+  return undefined;
+}
+
+// Moves the staged files into the output directory and removes the files of the previous
+// manifest that were not staged again. Other files in the output directory are left alone.
+// Each file is replaced with a rename, so readers never see a missing or partly written file,
+// but the set as a whole is not replaced atomically: while this runs, some files can already be
+// new while others are still old. manifest.json is moved last, so once it changes every file it
+// lists is in place.
+export async function publishOutputDir(
+  stagingDir: string,
+  outputDir: string,
+  previous: BuildManifest | undefined,
+): Promise<void> {
+  const staged = new Set<string>();
+  for (const filePath of await listFiles(stagingDir)) {
+    const relPath = path.relative(stagingDir, filePath);
+    staged.add(relPath.split(path.sep).join('/'));
+    if (relPath !== MANIFEST_FILE) {
+      await fs.mkdir(path.dirname(path.join(outputDir, relPath)), { recursive: true });
+      await fs.rename(filePath, path.join(outputDir, relPath));
+    }
+  }
+
+  for (const file of previous?.files ?? []) {
+    const filePath = path.resolve(outputDir, file.path);
+    if (staged.has(file.path) || !filePath.startsWith(`${outputDir}${path.sep}`)) {
+      continue;
+    }
+    await fs.rm(filePath, { force: true });
+    await removeEmptyDirs(path.dirname(filePath), outputDir);
+  }
+
+  if (staged.has(MANIFEST_FILE)) {
+    await fs.rename(path.join(stagingDir, MANIFEST_FILE), path.join(outputDir, MANIFEST_FILE));
+  }
+}
+
+async function removeEmptyDirs(dir: string, rootDir: string): Promise<void> {
+  for (let current = dir; current !== rootDir; current = path.dirname(current)) {
+    try {
+      await fs.rmdir(current);
+    } catch {
+      return;
+    }
+  }
+}
+
+export async function writeManifest(
+  outputDir: string,
+  manifest: Omit<BuildManifest, 'files'>,
+): Promise<string> {
+  const files: ManifestFile[] = [];
+  for (const filePath of await listFiles(outputDir)) {
+    const relPath = path.relative(outputDir, filePath).split(path.sep).join('/');
+    if (relPath === MANIFEST_FILE) {
+      continue;
+    }
+    const content = await fs.readFile(filePath);
+    files.push({
+      path: relPath,
+      bytes: content.length,
+      sha256: createHash('sha256').update(content).digest('hex')
+    });
+  }
+
+  const manifestPath = path.join(outputDir, MANIFEST_FILE);
+  await fs.writeFile(manifestPath, `${JSON.stringify({ ...manifest, files }, null, 2)}\n`, 'utf8');
+  return manifestPath;
+}
+
+async function listFiles(dir: string): Promise<string[]> {
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+  const files: string[] = [];
+  for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...(await listFiles(entryPath)));
+    } else if (entry.isFile()) {
+      files.push(entryPath);
+    }
+  }
+  return files;
+}
@@ -0,0 +1,555 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import {
+  createFileHasher,
+  hashConfig,
+  hashContent,
+  type BuildCache,
+  type SourceCache
+} from './cache.js';
+import type { Diagnostic, PageDiagnostic } from './diagnostics.js';
+import { parseFrontmatter, type FrontmatterData } from './frontmatter.js';
+import { addSparsePaths, ensureDocsRepo, getRepoMeta, type RepoMeta } from './git.js';
+import { convertHtmlBlocks } from './html.js';
+import { extractArchive, newestMtime } from './local.js';
+import {
+  docPathToUrl,
+  expandIncludeDirectives,
+  extractHeadings,
+  extractSummary,
+  extractTitle,
+  findIncludePaths,
+  normalizeLinks,
+  resolveDocLink,
+  stripLeadingH1,
+  stripVuePressDirectives,
+  type Heading
+} from './markdown.js';
+import { isPlainObject } from './schema.js';
+import { loadSidebar, type SidebarEntry } from './sidebar.js';
+import { outputSettings, type BuildConfig, type DocSource } from './config.js';
+
+// Stored as the hash of an include that does not exist, so the page is reused until it appears.
+const MISSING_DEPENDENCY = '';
+
+export type RelatedLink = {
+  title: string;
+  url: string;
+};
+
+export type ProcessedPage = {
+  relPath: string;
+  title: string;
+  url: string;
+  summary: string;
+  group: string;
+  headings: Heading[];
+  keywords: string[];
+  related: RelatedLink[];
+  excluded: boolean;
+  diagnostics: PageDiagnostic[];
+  content: string;
+};
+
+type PageMeta = {
+  title?: string;
+  description?: string;
+  keywords: string[];
+  related: RelatedLink[];
+  excluded: boolean;
+};
+
+export type LoadedSource = {
+  source: DocSource;
+  repoDir: string;
+  docsRoot: string;
+  aliasPath: string;
+  baseUrl: string;
+  meta: RepoMeta;
+  relPaths: string[];
+  pages: ProcessedPage[];
+  sidebar?: SidebarEntry[];
+  diagnostics: Diagnostic[];
+  processedPaths: Set<string>;
+  previous?: SourceCache<ProcessedPage>;
+  lastBuild?: SourceCache<ProcessedPage>;
+  next: SourceCache<ProcessedPage>;
+};
+
+type SourceContext = {
+  source: DocSource;
+  config: BuildConfig;
+  repoDir: string;
+  docsRoot: string;
+  aliasRoot: string;
+  aliasPath: string;
+  baseUrl: string;
+};
+
+export async function loadSources(
+  config: BuildConfig,
+  cache: BuildCache<ProcessedPage>,
+): Promise<LoadedSource[]> {
+  const repos = new Map<string, { repoDir: string; meta: RepoMeta }>();
+  const loaded: LoadedSource[] = [];
+
+  for (const source of config.sources) {
+    const key = path.resolve(source.repoDir);
+    let repo = repos.get(key);
+    if (!repo) {
+      repo = await prepareRepo(source, key, config);
+      repos.set(key, repo);
+    }
+    const loadedSource = await loadSource(source, config, repo.repoDir, repo.meta, cache);
+    cache.sources[source.id] = loadedSource.next;
+    loaded.push(loadedSource);
+  }
+
+  return loaded;
+}
+
+async function prepareRepo(
+  source: DocSource,
+  repoDir: string,
+  config: BuildConfig,
+): Promise<{ repoDir: string; meta: RepoMeta }> {
+  let root = repoDir;
+  let meta: RepoMeta;
+
+  if (source.archive) {
+    root = await extractArchive(path.resolve(source.archive), repoDir);
+    meta = await readLocalMeta(root);
+  } else if (source.local) {
+    if (!(await pathExists(root))) {
+      throw new Error(`Docs directory not found: ${root}`);
+    }
+    meta = (await pathExists(path.join(root, '.git')))
+      ? await getRepoMeta(root)
+      : await readLocalMeta(root);
+  } else {
+    const repoSources = config.sources.filter((item) => path.resolve(item.repoDir) === repoDir);
+    const sparse = config.sparseCheckout ? sparsePaths(repoSources) : undefined;
+    await ensureDocsRepo(repoDir, source.repo, {
+      ref: source.ref,
+      offline: config.offline,
+      sparsePaths: sparse
+    });
+    if (sparse && !config.offline) {
+      await addIncludeDirs(repoDir, repoSources, sparse);
+    }
+    meta = await getRepoMeta(repoDir, source.ref);
+  }
+
+  return {
+    repoDir: root,
+    meta: {
+      ...meta,
+      commit: source.commit ?? meta.commit,
+      timestamp: source.timestamp ?? meta.timestamp
+    }
+  };
+}
+
+async function readLocalMeta(rootDir: string): Promise<RepoMeta> {
+  const mtime = await newestMtime(rootDir);
+  return {
+    commit: 'local',
+    timestamp: (mtime ?? new Date(0)).toISOString().replace(/\.\d{3}Z$/, 'Z')
+  };
+}
+
+// Returns undefined when a source builds from the repo root, which turns sparse checkout off.
+function sparsePaths(sources: DocSource[]): string[] | undefined {
+  const paths = new Set<string>();
+  for (const source of sources) {
+    const dirs = [...source.subpaths, ...(source.siteDir === undefined ? [] : [source.siteDir])];
+    for (const dir of dirs) {
+      const normalized = path.posix.normalize(toPosixPath(dir || '.')).replace(/\/+$/, '');
+      if (normalized === '.') {
+        return undefined;
+      }
+      paths.add(normalized);
+    }
+    if (source.sidebarFile) {
+      paths.add(path.posix.dirname(toPosixPath(source.sidebarFile)));
+    }
+  }
+  return [...paths].filter((item) => item !== '.');
+}
+
+// Adds the directories of included files to the sparse checkout, following includes in the
+// files that are added until nothing new is found.
+async function addIncludeDirs(
+  repoDir: string,
+  sources: DocSource[],
+  sparse: string[],
+): Promise<void> {
+  const checkedOut = (dir: string) =>
+    sparse.some((item) => dir === item || dir.startsWith(`${item}/`));
+  let pending: { filePath: string; aliasRoot: string }[] = [];
+  for (const source of sources) {
+    const aliasRoot = path.resolve(repoDir, source.siteDir ?? '');
+    for (const subpath of source.subpaths) {
+      const docsRoot = path.resolve(repoDir, subpath);
+      if (await pathExists(docsRoot)) {
+        const files = await collectMarkdownFiles(docsRoot);
+        pending.push(...files.map((filePath) => ({ filePath, aliasRoot })));
+      }
+    }
+  }
+
+  const scanned = new Set<string>();
+  while (pending.length > 0) {
+    const added = new Set<string>();
+    const next: typeof pending = [];
+    for (const { filePath, aliasRoot } of pending) {
+      scanned.add(filePath);
+      const content = await fs.readFile(filePath, 'utf8').catch(() => '');
+      for (const includePath of findIncludePaths(content, {
+        repoRoot: repoDir,
+        currentFilePath: filePath,
+        aliasRoot
+      })) {
+        const dir = toPosixPath(path.relative(repoDir, path.dirname(includePath)));
+        if (dir && !checkedOut(dir)) {
+          added.add(dir);
+        }
+        if (includePath.endsWith('.md') && !scanned.has(includePath)) {
+          scanned.add(includePath);
+          next.push({ filePath: includePath, aliasRoot });
+        }
+      }
+    }
+    if (added.size > 0) {
+      await addSparsePaths(repoDir, [...added]);
+      sparse.push(...added);
+    }
+    pending = next;
+  }
+}
+
+async function loadSource(
+  source: DocSource,
+  config: BuildConfig,
+  repoDir: string,
+  meta: RepoMeta,
+  cache: BuildCache<ProcessedPage>,
+): Promise<LoadedSource> {
+  const baseUrl = source.baseUrl.endsWith('/') ? source.baseUrl : `${source.baseUrl}/`;
+  const docsRoot = await resolveDocsRoot(
+    source.subpaths.map((subpath) => path.resolve(repoDir, subpath)),
+  );
+  const aliasRoot = path.resolve(repoDir, source.siteDir ?? '');
+  const aliasPath = toPosixPath(path.relative(docsRoot, aliasRoot));
+  const context: SourceContext = { source, config, repoDir, docsRoot, aliasRoot, aliasPath, baseUrl };
+
+  const files = await collectMarkdownFiles(docsRoot);
+  const relPaths = files.map((filePath) => toPosixPath(path.relative(docsRoot, filePath)));
+
+  const configHash = hashConfig({
+    source,
+    outputs: { ...outputSettings(config), sources: undefined }
+  });
+  const previous = cache.sources[source.id];
+  const reusable = previous?.configHash === configHash ? previous : undefined;
+  const hashFile = createFileHasher();
+  const diagnostics: Diagnostic[] = [];
+  const sidebarFile = source.sidebarFile;
+  const sidebar = sidebarFile
+    ? await loadSidebar(path.resolve(repoDir, sidebarFile), source.sidebarKey, (message) =>
+        diagnostics.push({
+          sourceId: source.id,
+          file: toPosixPath(sidebarFile),
+          severity: 'warning',
+          code: 'sidebar-invalid',
+          message: `Could not load the sidebar, pages keep their file order: ${message}`
+        }),
+      )
+    : undefined;
+  const next: SourceCache<ProcessedPage> = {
+    configHash,
+    commit: meta.commit,
+    ref: meta.ref,
+    layoutHash: hashConfig(sidebar ?? null),
+    files: relPaths,
+    pages: {}
+  };
+
+  const pages: ProcessedPage[] = [];
+  const addPage = (page: ProcessedPage) => {
+    for (const diagnostic of page.diagnostics) {
+      const { file = page.relPath, ...rest } = diagnostic;
+      diagnostics.push({ sourceId: source.id, file, ...rest });
+    }
+    if (!page.excluded) {
+      pages.push(page);
+    }
+  };
+  const processedPaths = new Set<string>();
+  for (const filePath of files) {
+    const relPath = toPosixPath(path.relative(docsRoot, filePath));
+    const raw = await fs.readFile(filePath, 'utf8');
+    const hash = hashContent(raw);
+
+    const cached = reusable?.pages[relPath];
+    if (cached && cached.hash === hash && (await depsUnchanged(cached.deps, repoDir, hashFile))) {
+      addPage(cached.page);
+      next.pages[relPath] = cached;
+      continue;
+    }
+
+    const dependencies = new Set<string>();
+    const page = await processPage(raw, filePath, context, dependencies);
+    const deps: Record<string, string> = {};
+    for (const dependency of dependencies) {
+      const dependencyHash = (await hashFile(dependency)) ?? MISSING_DEPENDENCY;
+      deps[toPosixPath(path.relative(repoDir, dependency))] = dependencyHash;
+    }
+
+    addPage(page);
+    next.pages[relPath] = { hash, deps, page };
+    processedPaths.add(relPath);
+  }
+
+  return {
+    source,
+    repoDir,
+    docsRoot,
+    aliasPath,
+    baseUrl,
+    meta,
+    relPaths,
+    pages,
+    sidebar,
+    diagnostics,
+    processedPaths,
+    previous: reusable,
+    lastBuild: previous,
+    next
+  };
+}
+
+async function processPage(
+  raw: string,
+  filePath: string,
+  context: SourceContext,
+  dependencies: Set<string>,
+): Promise<ProcessedPage> {
+  const relPath = toPosixPath(path.relative(context.docsRoot, filePath));
+  const frontmatter = parseFrontmatter(raw);
+  const diagnostics: PageDiagnostic[] = [];
+  if (frontmatter.error) {
+    diagnostics.push({
+      severity: 'warning',
+      code: 'frontmatter-invalid',
+      message: frontmatter.error,
+      line: 1
+    });
+  }
+  const warnings: string[] = [];
+  const meta = readPageMeta(frontmatter.data, relPath, context.baseUrl, warnings);
+  for (const message of warnings) {
+    diagnostics.push({ severity: 'warning', code: 'frontmatter-field', message });
+  }
+
+  const bodyOffset = raw.slice(0, raw.length - frontmatter.body.length).split('\n').length - 1;
+  const expanded = await expandIncludeDirectives(frontmatter.body, {
+    repoRoot: context.repoDir,
+    currentFilePath: filePath,
+    aliasRoot: context.aliasRoot,
+    dependencies,
+    onError: ({ code, message, file, line }) => {
+      const inPage = file === filePath;
+      diagnostics.push({
+        severity: 'error',
+        code,
+        message,
+        file: inPage ? undefined : toPosixPath(path.relative(context.docsRoot, file)),
+        line: line !== undefined && inPage ? line + bodyOffset : line
+      });
+    }
+  });
+  const unknownComponents = new Set<string>();
+  const cleaned = stripVuePressDirectives(convertHtmlBlocks(expanded), {
+    containers: context.config.containers,
+    components: context.config.components,
+    onUnknownComponent: (name) => unknownComponents.add(name)
+  });
+  for (const name of unknownComponents) {
+    const index = raw.split('\n').findIndex((line) => line.includes(`<${name}`));
+    diagnostics.push({
+      severity: 'warning',
+      code: 'unknown-component',
+      message: `Unknown component <${name}>; add it to "components" to choose how it renders`,
+      line: index === -1 ? undefined : index + 1
+    });
+  }
+  const headings = extractHeadings(expanded);
+
+  const fallbackTitle = path.basename(filePath, path.extname(filePath));
+  const heading = extractTitle(cleaned, '');
+  const title = meta.title ?? (heading || fallbackTitle);
+  if (!meta.title && !heading) {
+    diagnostics.push({
+      severity: 'warning',
+      code: 'missing-title',
+      message: `No title in frontmatter or H1; using "${fallbackTitle}"`
+    });
+  }
+
+  const contentWithoutTitle = stripLeadingH1(cleaned);
+  const content = normalizeLinks(contentWithoutTitle, {
+    baseUrl: context.baseUrl,
+    currentFilePath: relPath,
+    aliasPath: context.aliasPath,
+    images: context.config.images
+  }).trimEnd();
+
+  const summary = meta.description ?? extractSummary(contentWithoutTitle);
+  if (!summary) {
+    diagnostics.push({
+      severity: 'info',
+      code: 'missing-summary',
+      message: 'No description in frontmatter and no leading paragraph to use as the summary'
+    });
+  }
+
+  return {
+    relPath,
+    title,
+    url: docPathToUrl(relPath, context.baseUrl),
+    summary,
+    group: relPath.includes('/') ? relPath.split('/')[0] : 'root',
+    headings,
+    keywords: meta.keywords,
+    related: meta.related,
+    excluded: meta.excluded,
+    diagnostics,
+    content
+  };
+}
+
+function readPageMeta(
+  data: FrontmatterData,
+  relPath: string,
+  baseUrl: string,
+  warnings: string[],
+): PageMeta {
+  const text = (key: string): string | undefined => {
+    const value = data[key];
+    if (value === undefined || value === null) {
+      return undefined;
+    }
+    if (typeof value !== 'string' && typeof value !== 'number') {
+      warnings.push(`Frontmatter "${key}" must be a string`);
+      return undefined;
+    }
+    return String(value).trim() || undefined;
+  };
+
+  let keywords: string[] = [];
+  if (typeof data.keywords === 'string') {
+    keywords = data.keywords.split(',');
+  } else if (Array.isArray(data.keywords)) {
+    keywords = data.keywords.map(String);
+  } else if (data.keywords !== undefined && data.keywords !== null) {
+    warnings.push('Frontmatter "keywords" must be a string or a list');
+  }
+
+  const related: RelatedLink[] = [];
+  const relatedItems = data.related ?? [];
+  if (!Array.isArray(relatedItems)) {
+    warnings.push('Frontmatter "related" must be a list');
+  } else {
+    for (const item of relatedItems) {
+      const target = typeof item === 'string' ? item : isPlainObject(item) ? linkField(item) : undefined;
+      if (!target) {
+        warnings.push('Frontmatter "related" entries need a uri');
+        continue;
+      }
+      const label = isPlainObject(item) && typeof item.label === 'string' ? item.label : target;
+      related.push({ title: label, url: resolveDocLink(target, relPath, baseUrl) });
+    }
+  }
+
+  if (data.llms !== undefined && typeof data.llms !== 'boolean') {
+    warnings.push('Frontmatter "llms" must be true or false');
+  }
+
+  return {
+    title: text('title'),
+    description: text('description'),
+    keywords: keywords.map((keyword) => keyword.trim()).filter(Boolean),
+    related,
+    excluded: data.llms === false
+  };
+}
+
+function linkField(item: Record<string, unknown>): string | undefined {
+  for (const key of ['uri', 'url', 'link', 'path']) {
+    if (typeof item[key] === 'string') {
+      return item[key] as string;
+    }
+  }
+  return undefined;
+}
+
+async function depsUnchanged(
+  deps: Record<string, string>,
+  repoDir: string,
+  hashFile: (filePath: string) => Promise<string | undefined>,
+): Promise<boolean> {
+  for (const [dependency, hash] of Object.entries(deps)) {
+    if (((await hashFile(path.join(repoDir, dependency))) ?? MISSING_DEPENDENCY) !== hash) {
+      return false;
+    }
+  }
+  return true;
+}
+
+async function resolveDocsRoot(candidates: string[]): Promise<string> {
+  for (const candidate of candidates) {
+    try {
+      await fs.access(candidate);
+      return candidate;
+    } catch {
+      // Try next candidate.
+    }
+  }
+  throw new Error(`Docs path not found. Checked: ${candidates.join(', ')}`);
+}
+
+export async function collectMarkdownFiles(rootDir: string): Promise<string[]> {
+  const entries = await fs.readdir(rootDir, { withFileTypes: true });
+  const files: string[] = [];
+
+  const dirs = entries.filter((entry) => entry.isDirectory()).sort((a, b) => a.name.localeCompare(b.name));
+  const mdFiles = entries
+    .filter((entry) => entry.isFile() && entry.name.toLowerCase().endsWith('.md'))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  for (const file of mdFiles) {
+    files.push(path.join(rootDir, file.name));
+  }
+
+  for (const dir of dirs) {
+    const childPath = path.join(rootDir, dir.name);
+    const childFiles = await collectMarkdownFiles(childPath);
+    files.push(...childFiles);
+  }
+
+  return files;
+}
+
+export function toPosixPath(filePath: string): string {
+  return filePath.split(path.sep).join('/');
+}
+
+async function pathExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,153 @@
+export type Schema =
+  | { type: 'string'; nonEmpty?: boolean; values?: string[] }
+  | { type: 'number'; min?: number; integer?: boolean }
+  | { type: 'boolean' }
+  | { type: 'array'; items: Schema }
+  | { type: 'object'; properties: Record<string, Schema>; required?: string[] }
+  | { type: 'record'; values: Schema }
+  | { type: 'oneOf'; options: Schema[] };
+
+export function validate(value: unknown, schema: Schema, label = ''): string[] {
+  switch (schema.type) {
+    case 'string': {
+      if (typeof value !== 'string') {
+        return [mismatch(label, 'a string', value)];
+      }
+      if (schema.nonEmpty && !value) {
+        return [`${describe(label)}: must not be empty`];
+      }
+      if (schema.values && !schema.values.includes(value)) {
+        const allowed = schema.values.map((item) => JSON.stringify(item)).join(', ');
+        return [`${describe(label)}: expected one of ${allowed}, got ${JSON.stringify(value)}`];
+      }
+      return [];
+    }
+    case 'number': {
+      if (typeof value !== 'number' || Number.isNaN(value)) {
+        return [mismatch(label, 'a number', value)];
+      }
+      if (schema.integer && !Number.isInteger(value)) {
+        return [`${describe(label)}: expected an integer, got ${value}`];
+      }
+      if (schema.min !== undefined && value < schema.min) {
+        return [`${describe(label)}: must be at least ${schema.min}, got ${value}`];
+      }
+      return [];
+    }
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [mismatch(label, 'a boolean', value)];
+    case 'array': {
+      if (!Array.isArray(value)) {
+        return [mismatch(label, 'an array', value)];
+      }
+      return value.flatMap((item, index) => validate(item, schema.items, `${label}[${index}]`));
+    }
+    case 'record': {
+      if (!isPlainObject(value)) {
+        return [mismatch(label, 'an object', value)];
+      }
+      return Object.entries(value).flatMap(([key, item]) =>
+        validate(item, schema.values, joinLabel(label, key)),
+      );
+    }
+    case 'object': {
+      if (!isPlainObject(value)) {
+        return [mismatch(label, 'an object', value)];
+      }
+      const errors: string[] = [];
+      const known = Object.keys(schema.properties);
+      for (const key of schema.required ?? []) {
+        if (value[key] === undefined) {
+          errors.push(`${describe(joinLabel(label, key))}: is required`);
+        }
+      }
+      for (const [key, item] of Object.entries(value)) {
+        const propertySchema = schema.properties[key];
+        if (!propertySchema) {
+          const suggestion = closestMatch(key, known);
+          const hint = suggestion ? ` (did you mean "${suggestion}"?)` : '';
+          errors.push(`${describe(joinLabel(label, key))}: unknown key${hint}`);
+          continue;
+        }
+        if (item === undefined) {
+          continue;
+        }
+        errors.push(...validate(item, propertySchema, joinLabel(label, key)));
+      }
+      return errors;
+    }
+    case 'oneOf': {
+      let best: string[] | undefined;
+      for (const option of schema.options) {
+        const errors = validate(value, option, label);
+        if (errors.length === 0) {
+          return [];
+        }
+        if (!best || errors.length < best.length) {
+          best = errors;
+        }
+      }
+      return best ?? [];
+    }
+  }
+}
+
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function mismatch(label: string, expected: string, value: unknown): string {
+  return `${describe(label)}: expected ${expected}, got ${typeName(value)}`;
+}
+
+function typeName(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'an array';
+  }
+  if (typeof value === 'string') {
+    return `string ${JSON.stringify(value)}`;
+  }
+  if (typeof value === 'object') {
+    return 'an object';
+  }
+  return `${typeof value} ${String(value)}`;
+}
+
+function describe(label: string): string {
+  return label || '(root)';
+}
+
+function joinLabel(label: string, key: string): string {
+  return label ? `${label}.${key}` : key;
+}
+
+function closestMatch(input: string, candidates: string[]): string | undefined {
+  let best: string | undefined;
+  let bestDistance = Infinity;
+  for (const candidate of candidates) {
+    const distance = editDistance(input.toLowerCase(), candidate.toLowerCase());
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return bestDistance <= Math.max(3, Math.floor(input.length / 3)) ? best : undefined;
+}
+
+function editDistance(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i += 1) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j += 1) {
+      const above = previous[j];
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      previous[j] = Math.min(previous[j] + 1, previous[j - 1] + 1, diagonal + cost);
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+}
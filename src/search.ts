@@ -0,0 +1,182 @@
+import fs from 'node:fs/promises';
+
+export const SEARCH_INDEX_FILE = 'search-index.json';
+
+const SEARCH_INDEX_VERSION = 1;
+const TITLE_BOOST = 3;
+const K1 = 1.2;
+const B = 0.75;
+const SNIPPET_LENGTH = 200;
+
+const STOP_WORDS = new Set(
+  'a an and are as at be by for from how in is it of on or the this to what with you'.split(' '),
+);
+
+export type SearchSource = {
+  id: string;
+  title: string;
+  commit: string;
+  ref?: string;
+  timestamp: string;
+};
+
+export type SearchDocument = {
+  source: string;
+  relPath: string;
+  url: string;
+  title: string;
+  group: string;
+  body: string;
+};
+
+export type SearchIndex = {
+  version: number;
+  sources: SearchSource[];
+  docs: (SearchDocument & { length: number })[];
+  averageLength: number;
+  terms: Record<string, [number, number][]>;
+};
+
+export type SearchOptions = {
+  limit?: number;
+  group?: string;
+  source?: string;
+  highlight?: (text: string) => string;
+};
+
+export type SearchResult = {
+  source: string;
+  relPath: string;
+  url: string;
+  title: string;
+  group: string;
+  score: number;
+  snippet: string;
+};
+
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? []).filter(
+    (token) => token.length > 1 && !STOP_WORDS.has(token),
+  );
+}
+
+export function buildSearchIndex(
+  sources: SearchSource[],
+  documents: SearchDocument[],
+): SearchIndex {
+  const terms: Record<string, [number, number][]> = {};
+  const docs = documents.map((document, docIndex) => {
+    const tokens = [
+      ...Array.from({ length: TITLE_BOOST }, () => tokenize(document.title)).flat(),
+      ...tokenize(plainText(document.body))
+    ];
+    const counts = new Map<string, number>();
+    for (const token of tokens) {
+      counts.set(token, (counts.get(token) ?? 0) + 1);
+    }
+    for (const [term, count] of counts) {
+      (terms[term] ??= []).push([docIndex, count]);
+    }
+    return { ...document, length: tokens.length };
+  });
+
+  const totalLength = docs.reduce((sum, doc) => sum + doc.length, 0);
+  return {
+    version: SEARCH_INDEX_VERSION,
+    sources,
+    docs,
+    averageLength: docs.length > 0 ? totalLength / docs.length : 0,
+    terms
+  };
+}
+
+export async function loadSearchIndex(filePath: string): Promise<SearchIndex> {
+  let index: SearchIndex;
+  try {
+    index = JSON.parse(await fs.readFile(filePath, 'utf8')) as SearchIndex;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Could not read search index ${filePath}: ${message}`);
+  }
+  if (index.version !== SEARCH_INDEX_VERSION) {
+    throw new Error(`Search index ${filePath} was written by another version; run build again.`);
+  }
+  return index;
+}
+
+export function search(
+  index: SearchIndex,
+  query: string,
+  options: SearchOptions = {},
+): SearchResult[] {
+  const queryTerms = [...new Set(tokenize(query))];
+  const group = options.group?.toLowerCase();
+  const scores = new Map<number, number>();
+
+  for (const term of queryTerms) {
+    const postings = index.terms[term] ?? [];
+    const idf = Math.log(1 + (index.docs.length - postings.length + 0.5) / (postings.length + 0.5));
+    for (const [docIndex, tf] of postings) {
+      const doc = index.docs[docIndex];
+      if (options.source && doc.source !== options.source) {
+        continue;
+      }
+      if (group && !doc.group.toLowerCase().includes(group)) {
+        continue;
+      }
+      const norm = K1 * (1 - B + (B * doc.length) / (index.averageLength || 1));
+      scores.set(docIndex, (scores.get(docIndex) ?? 0) + (idf * tf * (K1 + 1)) / (tf + norm));
+    }
+  }
+
+  return [...scores]
+    .sort((a, b) => b[1] - a[1] || a[0] - b[0])
+    .slice(0, options.limit ?? 10)
+    .map(([docIndex, score]) => {
+      const doc = index.docs[docIndex];
+      return {
+        source: doc.source,
+        relPath: doc.relPath,
+        url: doc.url,
+        title: doc.title,
+        group: doc.group,
+        score: Math.round(score * 1000) / 1000,
+        snippet: makeSnippet(doc.body, queryTerms, options.highlight ?? ((text) => `**${text}**`))
+      };
+    });
+}
+
+function plainText(body: string): string {
+  return body
+    .replace(/```[^\n]*\n/g, '')
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/^\s*(#{1,6}|>|[-*+]|\d+\.)\s+/gm, '')
+    .replace(/[*_`]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function makeSnippet(body: string, terms: string[], highlight: (text: string) => string): string {
+  const text = plainText(body);
+  if (terms.length === 0) {
+    return text.slice(0, SNIPPET_LENGTH);
+  }
+
+  const alternatives = terms.map(escapeRegExp).join('|');
+  const termRe = new RegExp(`(?<![\\p{L}\\p{N}_])(${alternatives})(?![\\p{L}\\p{N}_])`, 'giu');
+  const first = text.search(termRe);
+  const lead = SNIPPET_LENGTH / 3;
+  const start = first > lead ? text.lastIndexOf(' ', first - lead) + 1 : 0;
+  let end = Math.min(text.length, start + SNIPPET_LENGTH);
+  if (end < text.length) {
+    const space = text.lastIndexOf(' ', end);
+    end = space > start ? space : end;
+  }
+
+  const excerpt = text.slice(start, end).replace(termRe, (match) => highlight(match));
+  return `${start > 0 ? '…' : ''}${excerpt}${end < text.length ? '…' : ''}`;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
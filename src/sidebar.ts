@@ -0,0 +1,217 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { parseExportedLiteral } from './literal.js';
+import { isPlainObject as isRecord } from './schema.js';
+
+export type SidebarEntry = {
+  candidates: string[];
+  groupKey: string;
+  groupTitle: string;
+};
+
+type SidebarItem = unknown;
+
+export async function loadSidebar(
+  filePath: string,
+  key?: string,
+  onError?: (message: string) => void,
+): Promise<SidebarEntry[] | undefined> {
+  if (!fs.existsSync(filePath)) {
+    return undefined;
+  }
+
+  let loaded: unknown;
+  try {
+    const content = await fs.promises.readFile(filePath, 'utf8');
+    loaded = filePath.endsWith('.json') ? JSON.parse(content) : parseExportedLiteral(content);
+  } catch (error) {
+    onError?.(error instanceof Error ? error.message : String(error));
+    return undefined;
+  }
+
+  const sidebar = pickSidebar(loaded, key);
+  if (!sidebar) {
+    return undefined;
+  }
+
+  const entries = normalizeSidebar(sidebar);
+  return entries.length > 0 ? entries : undefined;
+}
+
+export function normalizeSidebar(sidebar: unknown): SidebarEntry[] {
+  const entries: SidebarEntry[] = [];
+  if (Array.isArray(sidebar)) {
+    collectItems(sidebar, '/', undefined, entries);
+    return entries;
+  }
+  if (isRecord(sidebar)) {
+    for (const [prefix, items] of Object.entries(sidebar)) {
+      const base = prefix.endsWith('/') ? prefix : `${prefix}/`;
+      const list = Array.isArray(items) ? items : isRecord(items) ? [items] : [];
+      collectItems(list, base, undefined, entries);
+    }
+  }
+  return entries;
+}
+
+function pickSidebar(loaded: unknown, key?: string): unknown {
+  let root = loaded;
+  if (isRecord(root) && root.default !== undefined) {
+    root = root.default;
+  }
+  if (!isRecord(root)) {
+    return undefined;
+  }
+
+  if (Array.isArray(root.versions)) {
+    const match = root.versions.find(
+      (item): item is [string, Record<string, unknown>] =>
+        Array.isArray(item) && item[0] === key && isRecord(item[1]),
+    );
+    return match ? sidebarOf(match[1]) : undefined;
+  }
+  if (key && isRecord(root[key])) {
+    const keyed = sidebarOf(root[key] as Record<string, unknown>);
+    if (keyed) {
+      return keyed;
+    }
+  }
+  return sidebarOf(root);
+}
+
+function sidebarOf(settings: Record<string, unknown>): unknown {
+  if (settings.sidebar !== undefined) {
+    return settings.sidebar;
+  }
+  if (isRecord(settings.themeConfig)) {
+    return settings.themeConfig.sidebar;
+  }
+  return undefined;
+}
+
+function collectItems(
+  items: SidebarItem[],
+  base: string,
+  group: { key: string; title: string } | undefined,
+  entries: SidebarEntry[],
+): void {
+  for (const item of items) {
+    if (isRecord(item) && Array.isArray(item.children)) {
+      const title = stringValue(item.title) ?? stringValue(item.text);
+      const nextGroup = group ?? (title ? { key: slugifyGroup(title), title } : undefined);
+      const link = stringValue(item.path) ?? stringValue(item.link);
+      if (link) {
+        pushEntry(link, base, nextGroup, entries);
+      }
+      collectItems(item.children, base, nextGroup, entries);
+      continue;
+    }
+
+    const link = Array.isArray(item)
+      ? stringValue(item[0])
+      : isRecord(item)
+        ? (stringValue(item.path) ?? stringValue(item.link))
+        : stringValue(item);
+    if (link !== undefined) {
+      pushEntry(link, base, group, entries);
+    }
+  }
+}
+
+function pushEntry(
+  link: string,
+  base: string,
+  group: { key: string; title: string } | undefined,
+  entries: SidebarEntry[],
+): void {
+  if (/^[a-zA-Z][a-zA-Z0-9+.-]*:/.test(link) || link.startsWith('//')) {
+    return;
+  }
+
+  const target = link.split('#')[0];
+  const joined = target.startsWith('/') ? target : `${base}${target}`;
+  const cleaned = path.posix.normalize(joined).replace(/^\/+/, '');
+  const candidates = linkCandidates(cleaned === '.' ? '' : cleaned);
+
+  const fallbackKey = candidates[0].includes('/') ? candidates[0].split('/')[0] : 'root';
+  entries.push({
+    candidates,
+    groupKey: group?.key ?? fallbackKey,
+    groupTitle: group?.title ?? fallbackKey
+  });
+}
+
+function linkCandidates(link: string): string[] {
+  if (!link || link.endsWith('/')) {
+    return [`${link}README.md`, `${link}index.md`];
+  }
+  const withoutExt = link.replace(/\.(md|html)$/i, '');
+  return [`${withoutExt}.md`, `${withoutExt}/README.md`, `${withoutExt}/index.md`];
+}
+
+function slugifyGroup(title: string): string {
+  return (
+    title
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '') || 'group'
+  );
+}
+
+function stringValue(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+export type PageGroup<T> = {
+  key: string;
+  title: string;
+  pages: T[];
+};
+
+export function groupPages<T extends { relPath: string; group: string }>(
+  pages: T[],
+  sidebar?: SidebarEntry[],
+): PageGroup<T>[] {
+  const placement = new Map<string, { order: number; entry: SidebarEntry }>();
+  (sidebar ?? []).forEach((entry, order) => {
+    for (const candidate of entry.candidates) {
+      if (!placement.has(candidate)) {
+        placement.set(candidate, { order, entry });
+      }
+    }
+  });
+
+  const placed: { page: T; order: number; entry: SidebarEntry }[] = [];
+  const unplaced: T[] = [];
+  for (const page of pages) {
+    const match = placement.get(page.relPath);
+    if (match) {
+      placed.push({ page, ...match });
+    } else {
+      unplaced.push(page);
+    }
+  }
+  placed.sort((a, b) => a.order - b.order);
+
+  const groups = new Map<string, PageGroup<T>>();
+  for (const { page, entry } of placed) {
+    const group = groups.get(entry.groupKey) ?? { key: entry.groupKey, title: entry.groupTitle, pages: [] };
+    group.pages.push(page);
+    groups.set(entry.groupKey, group);
+  }
+
+  const fallback = new Map<string, PageGroup<T>>();
+  for (const page of unplaced) {
+    const group = groups.get(page.group) ?? fallback.get(page.group) ?? { key: page.group, title: page.group, pages: [] };
+    group.pages.push(page);
+    if (!groups.has(page.group)) {
+      fallback.set(page.group, group);
+    }
+  }
+  for (const group of fallback.values()) {
+    group.pages.sort((a, b) => a.relPath.localeCompare(b.relPath));
+  }
+
+  const fallbackGroups = Array.from(fallback.values()).sort((a, b) => a.key.localeCompare(b.key));
+  return [...groups.values(), ...fallbackGroups];
+}
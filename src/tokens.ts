@@ -0,0 +1,43 @@
+const CHARS_PER_TOKEN = 4;
+
+export type SizeLimit = {
+  maxTokens?: number;
+  maxBytes?: number;
+};
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export function formatTokens(tokens: number): string {
+  return tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+}
+
+export function splitBySize(chunks: string[], limit: SizeLimit, reserved = ''): string[][] {
+  const maxTokens = limit.maxTokens ?? Infinity;
+  const maxBytes = limit.maxBytes ?? Infinity;
+  const reservedTokens = estimateTokens(reserved);
+  const reservedBytes = Buffer.byteLength(reserved);
+
+  const parts: string[][] = [];
+  let current: string[] = [];
+  let tokens = reservedTokens;
+  let bytes = reservedBytes;
+  for (const chunk of chunks) {
+    const chunkTokens = estimateTokens(chunk);
+    const chunkBytes = Buffer.byteLength(chunk) + 1;
+    if (current.length > 0 && (tokens + chunkTokens > maxTokens || bytes + chunkBytes > maxBytes)) {
+      parts.push(current);
+      current = [];
+      tokens = reservedTokens;
+      bytes = reservedBytes;
+    }
+    current.push(chunk);
+    tokens += chunkTokens;
+    bytes += chunkBytes;
+  }
+  if (current.length > 0) {
+    parts.push(current);
+  }
+  return parts;
+}
@@ -0,0 +1,476 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { execFile } from 'node:child_process';
+import { createHash } from 'node:crypto';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { promisify } from 'node:util';
+import { build } from '../src/build.js';
+import { resolveConfig, type ConfigInput } from '../src/config.js';
+
+async function withFixture(
+  files: Record<string, string>,
+  run: (root: string, input: ConfigInput) => Promise<void>,
+): Promise<void> {
+  const root = await fs.mkdtemp(path.join(os.tmpdir(), 'craft-llms-build-'));
+  try {
+    for (const [relPath, content] of Object.entries(files)) {
+      await fs.mkdir(path.dirname(path.join(root, 'docs', relPath)), { recursive: true });
+      await fs.writeFile(path.join(root, 'docs', relPath), content);
+    }
+    await run(root, {
+      versions: ['5.x', '4.x'],
+      docsPath: path.join(root, 'docs'),
+      docsCommit: 'abc1234',
+      docsTimestamp: '2024-01-01T00:00:00Z',
+      outputDir: path.join(root, 'public'),
+      cacheDir: path.join(root, 'cache'),
+    });
+  } finally {
+    await fs.rm(root, { recursive: true, force: true });
+  }
+}
+
+const execFileAsync = promisify(execFile);
+
+const DOCS = {
+  'docs/5.x/README.md': '# Introduction\n\nWelcome to Craft 5.\n',
+  'docs/5.x/config.md': '# Configuration\n\nSet things up.\n\n## General\n\nMore.\n',
+  'docs/4.x/README.md': '# Introduction\n\nWelcome to Craft 4.\n',
+};
+
+test('build writes an output directory per source and a top-level index', async () => {
+  await withFixture(DOCS, async (root, input) => {
+    const result = await build(resolveConfig(input));
+
+    assert.equal(result.totalFiles, 3);
+    assert.deepEqual(
+      result.sources.map((source) => [source.id, source.totalFiles]),
+      [
+        ['5.x', 2],
+        ['4.x', 1],
+      ],
+    );
+    for (const id of ['5.x', '4.x']) {
+      assert.deepEqual((await fs.readdir(path.join(root, 'public', id))).sort(), [
+        'llms-full.txt',
+        'llms.txt',
+      ]);
+    }
+
+    const full = await fs.readFile(path.join(root, 'public/5.x/llms-full.txt'), 'utf8');
+    assert.match(full, /^# Craft CMS 5\.x Documentation\n/);
+    assert.match(full, /Welcome to Craft 5\./);
+    assert.match(full, /# Configuration\n/);
+    assert.doesNotMatch(full, /Craft 4/);
+
+    const index = await fs.readFile(path.join(root, 'public/llms.txt'), 'utf8');
+    assert.match(index, /^# Craft CMS Documentation\n/);
+    assert.match(
+      index,
+      /- \[Craft CMS 5\.x\]\(5\.x\/llms\.txt\) — Full text: \[llms-full\.txt\]\(5\.x\/llms-full\.txt\)/,
+    );
+    assert.match(index, /- \[Craft CMS 4\.x\]\(4\.x\/llms\.txt\)/);
+    assert.match(index, /Last updated: 2024-01-01T00:00:00Z \(commit abc1234\)/);
+  });
+});
+
+test('build extracts a .tar.gz archive to the cache and rebuilds when it changes', async () => {
+  await withFixture({}, async (root, input) => {
+    const repoDir = path.join(root, 'archive/docs-main');
+    const readme = path.join(repoDir, 'docs/5.x/README.md');
+    const archivePath = path.join(root, 'docs-main.tar.gz');
+    const pack = async (content: string, mtime: string) => {
+      await fs.mkdir(path.dirname(readme), { recursive: true });
+      await fs.writeFile(readme, content);
+      await fs.utimes(readme, new Date(mtime), new Date(mtime));
+      await execFileAsync('tar', ['-czf', archivePath, '-C', path.dirname(repoDir), 'docs-main']);
+    };
+    const config = resolveConfig({
+      ...input,
+      versions: ['5.x'],
+      docsPath: archivePath,
+      docsCommit: undefined,
+      docsTimestamp: undefined,
+    });
+    const key = createHash('sha256').update(archivePath).digest('hex').slice(0, 8);
+    assert.equal(config.sources[0].repoDir, path.join(root, 'cache/archives', `docs-main-${key}`));
+
+    await pack('# Introduction\n\nFirst draft.\n', '2024-01-01T00:00:00Z');
+    const first = await build(config);
+    assert.deepEqual(
+      [first.sources[0].commit, first.sources[0].timestamp],
+      ['local', '2024-01-01T00:00:00Z'],
+    );
+    // A single top-level directory in the archive is the repo root.
+    const extracted = path.join(config.sources[0].repoDir, 'docs-main/docs/5.x/README.md');
+    assert.equal(await fs.readFile(extracted, 'utf8'), '# Introduction\n\nFirst draft.\n');
+    assert.equal((await build(config)).upToDate, true);
+
+    await pack('# Introduction\n\nSecond draft.\n', '2024-02-01T00:00:00Z');
+    const second = await build(config);
+    assert.equal(second.upToDate, false);
+    assert.equal(second.sources[0].timestamp, '2024-02-01T00:00:00Z');
+    const full = await fs.readFile(path.join(root, 'public/5.x/llms-full.txt'), 'utf8');
+    assert.match(full, /Second draft\./);
+    assert.doesNotMatch(full, /First draft\./);
+
+    await fs.rm(archivePath);
+    await assert.rejects(build(config), /Docs archive not found: /);
+  });
+});
+
+test('build reuses cached pages until a page or one of its includes changes', async () => {
+  const files = {
+    ...DOCS,
+    'docs/5.x/README.md': '# Introduction\n\n!!!include(docs/snippets/intro.md)!!!\n',
+    'docs/5.x/config.md': '# Configuration\n\n!!!include(docs/snippets/missing.md)!!!\n',
+    'docs/snippets/intro.md': 'Shared intro.\n',
+  };
+  await withFixture(files, async (root, input) => {
+    const config = resolveConfig(input);
+    const processed = async () =>
+      (await build(config)).sources.map((source) => [source.id, source.processedFiles]);
+
+    assert.deepEqual(await processed(), [
+      ['5.x', 2],
+      ['4.x', 1],
+    ]);
+    // A missing include is a cache hit as long as it stays missing.
+    const second = await build(config);
+    assert.equal(second.upToDate, true);
+    assert.deepEqual(
+      second.sources.map((source) => source.processedFiles),
+      [0, 0],
+    );
+
+    await fs.writeFile(path.join(root, 'docs/docs/snippets/intro.md'), 'Updated intro.\n');
+    assert.deepEqual(await processed(), [
+      ['5.x', 1],
+      ['4.x', 0],
+    ]);
+    const full = await fs.readFile(path.join(root, 'public/5.x/llms-full.txt'), 'utf8');
+    assert.match(full, /Updated intro\./);
+
+    await fs.writeFile(path.join(root, 'docs/docs/snippets/missing.md'), 'Now here.\n');
+    await fs.writeFile(path.join(root, 'docs/docs/4.x/README.md'), '# Introduction\n\nChanged.\n');
+    assert.deepEqual(await processed(), [
+      ['5.x', 1],
+      ['4.x', 1],
+    ]);
+
+    // Where the outputs go and how the build runs do not affect the processed pages.
+    const elsewhere = { ...config, strict: true, outputDir: path.join(root, 'elsewhere') };
+    assert.deepEqual(
+      (await build(elsewhere)).sources.map((source) => source.processedFiles),
+      [0, 0],
+    );
+
+    assert.deepEqual(
+      (await build({ ...config, cache: false })).sources.map((source) => source.processedFiles),
+      [2, 1],
+    );
+  });
+});
+
+test('build reports a sidebar that cannot be loaded and keeps the file order', async () => {
+  const files = { ...DOCS, 'docs/.vuepress/sets/craft-cms.js': 'module.exports = {\n' };
+  await withFixture(files, async (root, input) => {
+    const result = await build(resolveConfig(input));
+
+    const warnings = result.diagnostics.filter((diagnostic) => diagnostic.code === 'sidebar-invalid');
+    assert.deepEqual(
+      warnings.map(({ sourceId, file, severity }) => [sourceId, file, severity]),
+      [
+        ['5.x', 'docs/.vuepress/sets/craft-cms.js', 'warning'],
+        ['4.x', 'docs/.vuepress/sets/craft-cms.js', 'warning'],
+      ],
+    );
+    assert.match(warnings[0].message, /Could not load the sidebar.*: Unexpected end of input/);
+    assert.equal(result.sources[0].totalFiles, 2);
+  });
+});
+
+test('build writes one pages.jsonl record per page with the documented fields', async () => {
+  await withFixture(DOCS, async (root, input) => {
+    await build(resolveConfig({ ...input, formats: ['text', 'jsonl'] }));
+
+    const lines = (await fs.readFile(path.join(root, 'public/5.x/pages.jsonl'), 'utf8'))
+      .trimEnd()
+      .split('\n');
+    const records = lines.map((line) => JSON.parse(line));
+    assert.equal(records.length, 2);
+    for (const record of records) {
+      assert.deepEqual(Object.keys(record).sort(), [
+        'body',
+        'group',
+        'hash',
+        'headings',
+        'links',
+        'relPath',
+        'source',
+        'summary',
+        'title',
+        'url',
+      ]);
+      assert.equal(record.hash, createHash('sha256').update(record.body).digest('hex'));
+    }
+
+    const config = records.find((record) => record.relPath === 'config.md');
+    assert.equal(config.source, '5.x');
+    assert.equal(config.url, 'https://craftcms.com/docs/5.x/config.html');
+    assert.equal(config.title, 'Configuration');
+    assert.equal(config.summary, 'Set things up.');
+    assert.deepEqual(config.headings, [
+      { level: 1, text: 'Configuration', slug: 'configuration' },
+      { level: 2, text: 'General', slug: 'general' },
+    ]);
+    assert.equal(config.body, 'Set things up.\n\n## General\n\nMore.');
+    assert.deepEqual(config.links, []);
+  });
+});
+
+test('build splits llms-full.txt into parts at page boundaries and lists them', async () => {
+  const page = (title: string) => `# ${title}\n\n${`${title} text. `.repeat(40)}\n`;
+  const files = {
+    'docs/5.x/README.md': page('Introduction'),
+    'docs/5.x/config.md': page('Configuration'),
+    'docs/5.x/plugins.md': page('Plugins'),
+  };
+  await withFixture(files, async (root, input) => {
+    const maxBytes = 1500;
+    await build(resolveConfig({ ...input, versions: ['5.x'], split: { maxBytes } }));
+
+    const sourceDir = path.join(root, 'public/5.x');
+    assert.deepEqual((await fs.readdir(sourceDir)).sort(), [
+      'llms-full-1.txt',
+      'llms-full-2.txt',
+      'llms-full-3.txt',
+      'llms-full.txt',
+      'llms.txt',
+    ]);
+    const full = await fs.readFile(path.join(sourceDir, 'llms-full.txt'), 'utf8');
+    assert.ok(Buffer.byteLength(full) > maxBytes);
+    const titles: string[] = [];
+    for (const part of [1, 2, 3]) {
+      const text = await fs.readFile(path.join(sourceDir, `llms-full-${part}.txt`), 'utf8');
+      assert.ok(Buffer.byteLength(text) <= maxBytes);
+      assert.match(text, /^# Craft CMS 5\.x Documentation\n/);
+      assert.match(text, new RegExp(`\nPart ${part} of 3\n`));
+      titles.push(...[...text.matchAll(/^---\n# (.+)$/gm)].map((match) => match[1]));
+    }
+    // Each part holds one whole page, in the order of llms-full.txt.
+    assert.deepEqual(titles, [...full.matchAll(/^---\n# (.+)$/gm)].map((match) => match[1]));
+    assert.deepEqual([...titles].sort(), ['Configuration', 'Introduction', 'Plugins']);
+
+    const index = await fs.readFile(path.join(sourceDir, 'llms.txt'), 'utf8');
+    const listing = index.slice(index.indexOf('## Full text'));
+    assert.match(listing, /^## Full text\n- \[llms-full\.txt\]\(llms-full\.txt\) — complete text, ~/);
+    for (const part of [1, 2, 3]) {
+      assert.match(
+        listing,
+        new RegExp(`\n- \\[llms-full-${part}\\.txt\\]\\(llms-full-${part}\\.txt\\) — part ${part} of 3, ~`),
+      );
+    }
+
+    // Without a limit, or when the full text fits, no parts are written.
+    await build(resolveConfig({ ...input, versions: ['5.x'], split: { maxBytes: 100000 } }));
+    assert.deepEqual((await fs.readdir(sourceDir)).sort(), ['llms-full.txt', 'llms.txt']);
+    const unsplit = await fs.readFile(path.join(sourceDir, 'llms.txt'), 'utf8');
+    assert.doesNotMatch(unsplit, /## Full text/);
+  });
+});
+
+test('build writes a markdown mirror per page and links llms.txt to it', async () => {
+  const files = { ...DOCS, 'docs/5.x/system/updates.md': '# Updates\n\nStay current.\n' };
+  await withFixture(files, async (root, input) => {
+    await build(resolveConfig({ ...input, versions: ['5.x'], pageMirrors: true }));
+
+    const mirror = await fs.readFile(path.join(root, 'public/5.x/system/updates.html.md'), 'utf8');
+    assert.equal(
+      mirror,
+      '# Updates\n\nSource: https://craftcms.com/docs/5.x/system/updates.html\n\nStay current.\n',
+    );
+    const index = await fs.readFile(path.join(root, 'public/5.x/llms.txt'), 'utf8');
+    assert.match(index, /- \[Updates\]\(system\/updates\.html\.md\)/);
+    assert.match(index, /- \[Configuration\]\(config\.html\.md\)/);
+    assert.doesNotMatch(index, /craftcms\.com\/docs/);
+
+    await build(
+      resolveConfig({
+        ...input,
+        versions: ['5.x'],
+        pageMirrors: true,
+        mirrorBaseUrl: 'https://example.com/llms',
+      }),
+    );
+    const published = await fs.readFile(path.join(root, 'public/5.x/llms.txt'), 'utf8');
+    assert.match(
+      published,
+      /- \[Updates\]\(https:\/\/example\.com\/llms\/5\.x\/system\/updates\.html\.md\)/,
+    );
+  });
+});
+
+test('build fills llms-small.txt within the token budget', async () => {
+  const long = (title: string) =>
+    `# ${title}\n\nSummary of ${title}.\n\n## Details\n\n${'Long text. '.repeat(200)}\n`;
+  const files = {
+    ...DOCS,
+    'docs/5.x/config.md': long('Configuration'),
+    'docs/5.x/plugins.md': `${long('Plugins')}\n## Publishing a plugin\n\n## Selling a plugin\n`,
+  };
+  await withFixture(files, async (root, input) => {
+    let skipped: string[] = [];
+    const small = async (maxTokens: number, exclude: string[] = []) => {
+      const result = await build(
+        resolveConfig({ ...input, formats: ['small'], small: { maxTokens, exclude } }),
+      );
+      skipped = result.diagnostics
+        .filter((diagnostic) => diagnostic.code === 'small-budget')
+        .map(({ sourceId, file, severity, message }) => `${sourceId} ${file} ${severity}: ${message}`);
+      return fs.readFile(path.join(root, 'public/5.x/llms-small.txt'), 'utf8');
+    };
+
+    // Under budget every included page keeps its full text.
+    const roomy = await small(50000, ['plugins.md']);
+    assert.match(roomy, /^# Craft CMS 5\.x Documentation\n/);
+    assert.match(roomy, /Welcome to Craft 5\./);
+    assert.equal(roomy.split('Long text.').length - 1, 200);
+    assert.doesNotMatch(roomy, /# Plugins/);
+    assert.deepEqual(skipped, []);
+
+    // Over budget the first long page is expanded, the second keeps only its outline.
+    const tight = await small(800);
+    assert.equal(tight.split('Long text.').length - 1, 200);
+    assert.match(
+      tight,
+      /# Plugins\nURL: https:\/\/craftcms\.com\/docs\/5\.x\/plugins\.html\n\nSummary of Plugins\.\n\nOutline:\n- Details\n/,
+    );
+    assert.match(tight, /Welcome to Craft 5\./);
+    assert.deepEqual(skipped, []);
+
+    // A budget below the outlines leaves out the pages that do not fit, keeps later ones that
+    // still do, and reports what was left out.
+    const tiny = await small(100);
+    assert.match(tiny, /^# Craft CMS 5\.x Documentation\n/);
+    assert.match(tiny, /# Configuration\nURL: /);
+    assert.match(tiny, /# Introduction\n\nWelcome to Craft 5\./);
+    assert.doesNotMatch(tiny, /# Plugins/);
+    assert.doesNotMatch(tiny, /Long text\./);
+    assert.deepEqual(skipped, [
+      '5.x llms-small.txt warning: Left out to stay within small.maxTokens (100): plugins.md',
+    ]);
+  });
+});
+
+test('an up-to-date build leaves the output directory untouched', async () => {
+  await withFixture(DOCS, async (root, input) => {
+    await build(resolveConfig({ ...input, formats: ['text', 'jsonl'] }));
+    const manifestPath = path.join(root, 'public/manifest.json');
+    const before = await fs.stat(manifestPath);
+
+    const result = await build(resolveConfig({ ...input, formats: ['text', 'jsonl'] }));
+    assert.equal(result.upToDate, true);
+    assert.equal((await fs.stat(manifestPath)).mtimeMs, before.mtimeMs);
+    assert.deepEqual((await fs.readdir(root)).sort(), ['cache', 'docs', 'public']);
+  });
+});
+
+test('a rebuild drops outputs of formats that are no longer configured', async () => {
+  await withFixture(DOCS, async (root, input) => {
+    await build(resolveConfig({ ...input, formats: ['text', 'jsonl', 'search'] }));
+    assert.ok((await fs.readdir(path.join(root, 'public/5.x'))).includes('pages.jsonl'));
+    assert.ok((await fs.readdir(path.join(root, 'public'))).includes('search-index.json'));
+
+    await build(resolveConfig({ ...input, formats: ['text'] }));
+    assert.deepEqual((await fs.readdir(path.join(root, 'public/5.x'))).sort(), [
+      'llms-full.txt',
+      'llms.txt',
+    ]);
+    assert.ok(!(await fs.readdir(path.join(root, 'public'))).includes('search-index.json'));
+    const manifest = JSON.parse(await fs.readFile(path.join(root, 'public/manifest.json'), 'utf8'));
+    assert.deepEqual(
+      manifest.files.map((file: { path: string }) => file.path),
+      [
+        '4.x/llms-full.txt',
+        '4.x/llms.txt',
+        '5.x/llms-full.txt',
+        '5.x/llms.txt',
+        'build-report.json',
+        'llms.txt',
+      ],
+    );
+  });
+});
+
+test('a build leaves files it did not write in the output directory', async () => {
+  await withFixture(DOCS, async (root, input) => {
+    const outputDir = path.join(root, 'public');
+    await fs.mkdir(outputDir);
+    await build(resolveConfig({ ...input, formats: ['text', 'jsonl'] }));
+    await fs.writeFile(path.join(outputDir, 'keep.txt'), 'mine\n');
+    await fs.writeFile(path.join(outputDir, '5.x/notes.txt'), 'mine too\n');
+
+    await fs.writeFile(path.join(root, 'docs/docs/5.x/config.md'), '# Configuration\n\nChanged.\n');
+    const result = await build(resolveConfig({ ...input, formats: ['text'] }));
+    assert.equal(result.upToDate, false);
+    assert.equal(await fs.readFile(path.join(outputDir, 'keep.txt'), 'utf8'), 'mine\n');
+    assert.deepEqual((await fs.readdir(path.join(outputDir, '5.x'))).sort(), [
+      'llms-full.txt',
+      'llms.txt',
+      'notes.txt',
+    ]);
+    const manifest = JSON.parse(await fs.readFile(path.join(outputDir, 'manifest.json'), 'utf8'));
+    assert.ok(!manifest.files.some((file: { path: string }) => /keep|notes/.test(file.path)));
+  });
+});
+
+test('a build refuses a non-empty output directory it did not write unless forced', async () => {
+  await withFixture(DOCS, async (root, input) => {
+    await fs.writeFile(path.join(root, 'docs/package.json'), '{}\n');
+    const config = resolveConfig({ ...input, outputDir: path.join(root, 'docs') });
+    await assert.rejects(build(config), /has files but no manifest\.json.*Pass --force/);
+    assert.deepEqual((await fs.readdir(path.join(root, 'docs'))).sort(), ['docs', 'package.json']);
+
+    await build({ ...config, force: true });
+    assert.deepEqual((await fs.readdir(path.join(root, 'docs'))).sort(), [
+      '4.x',
+      '5.x',
+      'build-report.json',
+      'docs',
+      'llms.txt',
+      'manifest.json',
+      'package.json',
+      'search-index.json',
+    ]);
+    // Once the manifest is there, later builds need no --force and still keep the other files.
+    await fs.writeFile(path.join(root, 'docs/docs/4.x/README.md'), '# Introduction\n\nNew.\n');
+    assert.equal((await build(config)).upToDate, false);
+    assert.equal(await fs.readFile(path.join(root, 'docs/package.json'), 'utf8'), '{}\n');
+    assert.ok((await fs.readdir(path.join(root, 'docs/docs/5.x'))).includes('config.md'));
+  });
+});
+
+test('a strict build with errors leaves the output directory alone', async () => {
+  await withFixture(DOCS, async (root, input) => {
+    await build(resolveConfig(input));
+    const manifest = await fs.readFile(path.join(root, 'public/manifest.json'), 'utf8');
+    const report = await fs.readFile(path.join(root, 'public/build-report.json'), 'utf8');
+
+    await fs.writeFile(
+      path.join(root, 'docs/docs/5.x/config.md'),
+      '# Configuration\n\n!!!include(docs/snippets/missing.md)!!!\n',
+    );
+    const result = await build(resolveConfig({ ...input, strict: true }));
+
+    assert.equal(result.failed, true);
+    assert.equal(result.reportPath, path.join(root, 'cache/build-report.json'));
+    const failed = JSON.parse(await fs.readFile(result.reportPath, 'utf8'));
+    assert.equal(failed.summary.error, 1);
+    assert.equal(failed.diagnostics[0].code, 'include-not-found');
+    assert.equal(await fs.readFile(path.join(root, 'public/manifest.json'), 'utf8'), manifest);
+    assert.equal(await fs.readFile(path.join(root, 'public/build-report.json'), 'utf8'), report);
+  });
+});
@@ -0,0 +1,71 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { chunkPage } from '../src/chunk.js';
+import { extractHeadings } from '../src/markdown.js';
+import type { ProcessedPage } from '../src/pipeline.js';
+
+function page(content: string): ProcessedPage {
+  return {
+    relPath: 'reference/config.md',
+    title: 'Config',
+    url: 'https://craftcms.com/docs/5.x/reference/config.html',
+    summary: '',
+    group: 'reference',
+    headings: extractHeadings(`# Config\n${content}`),
+    keywords: [],
+    related: [],
+    excluded: false,
+    diagnostics: [],
+    content
+  };
+}
+
+test('chunkPage splits at H2/H3 with breadcrumbs and VuePress anchors', () => {
+  const chunks = chunkPage(
+    page(
+      [
+        'Intro text.',
+        '',
+        '## General Settings',
+        '',
+        '### `devMode`',
+        '',
+        'Enables dev mode.',
+        '',
+        '#### Default',
+        '',
+        '`false`',
+        '',
+        '## Database {#db}',
+        '',
+        'Connection settings.',
+      ].join('\n'),
+    ),
+    { maxTokens: 500 },
+  );
+
+  assert.deepEqual(
+    chunks.map((chunk) => [chunk.url.split('#')[1] ?? '', chunk.breadcrumb.join(' > ')]),
+    [
+      ['', 'Config'],
+      ['devmode', 'Config > General Settings > devMode'],
+      ['db', 'Config > Database'],
+    ],
+  );
+  assert.match(chunks[1].content, /#### Default\n\n`false`$/);
+});
+
+test('chunkPage keeps code fences whole when a section exceeds the limit', () => {
+  const fence = ['```php', 'return [', '', "    'devMode' => true,", '];', '```'].join('\n');
+  const chunks = chunkPage(
+    page(['## Example', '', 'First paragraph.', '', fence, '', 'Last paragraph.'].join('\n')),
+    { maxTokens: 8 },
+  );
+
+  assert.ok(chunks.length > 1);
+  assert.ok(chunks.some((chunk) => chunk.content === fence));
+  assert.deepEqual(
+    chunks.map((chunk) => chunk.id),
+    chunks.map((_, index) => `reference/config.md#example~${index + 1}`),
+  );
+});
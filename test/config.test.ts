@@ -0,0 +1,137 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { loadConfig, resolveConfig } from '../src/config.js';
+
+test('resolveConfig builds a source per version', () => {
+  const config = resolveConfig({ versions: ['5.x', '4.x'] });
+  assert.deepEqual(
+    config.sources.map((source) => [source.id, source.baseUrl]),
+    [
+      ['5.x', 'https://craftcms.com/docs/5.x/'],
+      ['4.x', 'https://craftcms.com/docs/4.x/'],
+    ],
+  );
+});
+
+test('loadConfig applies flags > env > file precedence', async () => {
+  const cwd = await fs.mkdtemp(path.join(os.tmpdir(), 'craft-llms-config-'));
+  await fs.writeFile(
+    path.join(cwd, 'craft-llms.config.json'),
+    JSON.stringify({ outputDir: 'from-file', docsRepo: 'file-repo', versions: ['4.x'] }),
+  );
+
+  const config = await loadConfig({
+    cwd,
+    env: { OUTPUT_DIR: 'from-env', DOCS_REPO: 'env-repo' },
+    flags: { outputDir: 'from-flags' },
+  });
+
+  assert.equal(config.outputDir, 'from-flags');
+  assert.equal(config.sources[0].repo, 'env-repo');
+  assert.equal(config.sources[0].id, '4.x');
+});
+
+test('loadConfig reports unknown and mistyped keys', async () => {
+  const cwd = await fs.mkdtemp(path.join(os.tmpdir(), 'craft-llms-config-'));
+  await fs.writeFile(
+    path.join(cwd, 'craft-llms.config.json'),
+    JSON.stringify({ outDir: 'public', versions: '5.x', sources: [{ id: 'cloud' }] }),
+  );
+
+  await assert.rejects(loadConfig({ cwd, env: {} }), (error: Error) => {
+    assert.match(error.message, /outDir: unknown key \(did you mean "outputDir"\?\)/);
+    assert.match(error.message, /versions: expected an array, got string "5.x"/);
+    assert.match(error.message, /sources\[0\]\.baseUrl: is required/);
+    return true;
+  });
+});
+
+test('resolveConfig applies docsRef to sources cloned from the docs repo', () => {
+  const config = resolveConfig({
+    versions: ['5.x'],
+    docsRef: 'v5.2.0',
+    sources: [
+      { id: 'commerce', subpath: 'docs/commerce/5.x', baseUrl: 'https://craftcms.com/docs/commerce/5.x/' },
+      { id: 'plugin', repo: 'https://example.com/plugin.git', baseUrl: 'https://example.com/docs/' },
+    ],
+  });
+  assert.deepEqual(
+    config.sources.map((source) => source.ref),
+    ['v5.2.0', 'v5.2.0', undefined],
+  );
+
+  assert.throws(
+    () =>
+      resolveConfig({
+        versions: ['5.x'],
+        sources: [{ id: 'commerce', ref: 'main', baseUrl: 'https://craftcms.com/docs/commerce/5.x/' }],
+      }),
+    /must use the same ref/,
+  );
+});
+
+test('resolveConfig builds from a local directory or archive when docsPath is set', () => {
+  const config = resolveConfig({
+    versions: ['5.x'],
+    cacheDir: '.cache/craft-llms',
+    docsPath: 'fixtures/docs-preview.tar.gz',
+    docsCommit: 'preview',
+    sources: [{ id: 'plugin', path: 'fixtures/plugin', baseUrl: 'https://example.com/docs/' }],
+  });
+
+  const [docs, plugin] = config.sources;
+  assert.equal(docs.archive, 'fixtures/docs-preview.tar.gz');
+  assert.match(docs.repoDir, /^\.cache\/craft-llms\/archives\/docs-preview-[0-9a-f]{8}$/);
+  assert.equal(docs.commit, 'preview');
+  assert.equal(docs.ref, undefined);
+  assert.deepEqual(
+    [plugin.repoDir, plugin.local, plugin.archive, plugin.commit],
+    ['fixtures/plugin', true, undefined, undefined],
+  );
+});
+
+test('resolveConfig fills header templates and merges group labels per source', () => {
+  const config = resolveConfig({
+    versions: ['5.x'],
+    versionTitle: 'Acme CMS {version}',
+    index: { title: 'Acme Documentation', summary: 'Docs for every Acme release.' },
+    notes: ['Pages for {id} only.'],
+    groups: { 'getting-started': 'Start here', system: { description: 'Core services.' } },
+    fileTitles: { index: '{title} Index' },
+    sources: [
+      {
+        id: 'plugin',
+        title: 'Acme Plugin Documentation',
+        summary: '',
+        fileTitles: { full: '{title}', changes: 'Changes to {id}' },
+        baseUrl: 'https://example.com/docs/',
+        groups: { 'getting-started': { title: 'Install', description: 'Setup steps.' } },
+      },
+    ],
+  });
+
+  const [docs, plugin] = config.sources;
+  assert.deepEqual(config.index, { title: 'Acme Documentation', summary: 'Docs for every Acme release.', notes: [] });
+  assert.equal(docs.title, 'Acme CMS 5.x');
+  assert.match(docs.summary ?? '', /^Acme CMS 5\.x documentation covering/);
+  assert.deepEqual(docs.notes, ['Pages for 5.x only.']);
+  assert.deepEqual(docs.groups['getting-started'], { title: 'Start here' });
+  assert.deepEqual(docs.fileTitles, {
+    full: 'Acme CMS 5.x Documentation',
+    index: 'Acme CMS 5.x Index',
+    changes: 'Acme CMS 5.x Documentation Changes',
+  });
+  assert.deepEqual(plugin.fileTitles, {
+    full: 'Acme Plugin Documentation',
+    index: 'Acme Plugin Documentation Index',
+    changes: 'Changes to plugin',
+  });
+  assert.equal(plugin.summary, undefined);
+  assert.deepEqual(plugin.groups, {
+    'getting-started': { title: 'Install', description: 'Setup steps.' },
+    system: { description: 'Core services.' },
+  });
+});
@@ -0,0 +1,49 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { resolveConfig } from '../src/config.js';
+import { diffPages, diffRefs, type PageSnapshot } from '../src/diff.js';
+
+function snapshot(relPath: string, title: string, hash: string, headings: string[] = []): PageSnapshot {
+  return { relPath, title, url: `https://example.com/${relPath}`, hash, headings };
+}
+
+test('diffPages reports added, removed, renamed and modified pages with heading changes', () => {
+  const diff = diffPages(
+    [
+      snapshot('install.md', 'Installation', 'a'),
+      snapshot('config.md', 'Config', 'b', ['## General', '## Database']),
+      snapshot('old.md', 'Old', 'c'),
+      snapshot('plugins.md', 'Plugins', 'd'),
+    ],
+    [
+      snapshot('setup/install.md', 'Installation', 'a'),
+      snapshot('config.md', 'Config', 'b2', ['## General', '## Queue']),
+      snapshot('extend/plugins.md', 'Plugins', 'd2'),
+      snapshot('new.md', 'New', 'e'),
+    ],
+  );
+
+  assert.deepEqual(diff.added.map((page) => page.relPath), ['new.md']);
+  assert.deepEqual(diff.removed.map((page) => page.relPath), ['old.md']);
+  assert.deepEqual(
+    diff.renamed.map((page) => [page.previousPath, page.relPath]),
+    [
+      ['install.md', 'setup/install.md'],
+      ['plugins.md', 'extend/plugins.md'],
+    ],
+  );
+  assert.deepEqual(diff.modified, [
+    {
+      relPath: 'config.md',
+      title: 'Config',
+      url: 'https://example.com/config.md',
+      headingsAdded: ['## Queue'],
+      headingsRemoved: ['## Database'],
+    },
+  ]);
+});
+
+test('diffRefs refuses to run without a cloned source', async () => {
+  const config = resolveConfig({ versions: ['5.x'], docsPath: 'fixtures/docs' });
+  await assert.rejects(diffRefs(config, 'v5.0.0', 'main'), /Nothing to diff: every source is a local/);
+});
@@ -0,0 +1,44 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { parseFrontmatter } from '../src/frontmatter.js';
+
+test('parseFrontmatter reads scalars, lists and lists of maps', () => {
+  const input = [
+    '---',
+    'title: "Element Queries"',
+    'description: Fetch elements in templates.',
+    'sidebarDepth: 2',
+    'llms: false',
+    'keywords: [queries, "twig"]',
+    'related:',
+    '  - uri: ../extend/element-types.md',
+    '    label: Custom element types',
+    '  - reference/element-types.md',
+    '---',
+    '',
+    '# Body',
+  ].join('\n');
+
+  const { data, body, error } = parseFrontmatter(input);
+  assert.equal(error, undefined);
+  assert.deepEqual(data, {
+    title: 'Element Queries',
+    description: 'Fetch elements in templates.',
+    sidebarDepth: 2,
+    llms: false,
+    keywords: ['queries', 'twig'],
+    related: [
+      { uri: '../extend/element-types.md', label: 'Custom element types' },
+      'reference/element-types.md',
+    ],
+  });
+  assert.equal(body.trim(), '# Body');
+});
+
+test('parseFrontmatter reports malformed blocks instead of dropping them silently', () => {
+  const input = ['---', 'title: "Unclosed', '---', 'Body'].join('\n');
+  const { data, body, error } = parseFrontmatter(input);
+  assert.deepEqual(data, {});
+  assert.equal(body, 'Body');
+  assert.match(error ?? '', /line 2: unterminated double-quoted string/);
+});
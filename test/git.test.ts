@@ -0,0 +1,41 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { ensureDocsRepo, getRepoMeta, runGit } from '../src/git.js';
+
+async function commitFile(repoDir: string, file: string, content: string): Promise<void> {
+  await fs.writeFile(path.join(repoDir, file), content);
+  await runGit(['-C', repoDir, 'add', '-A']);
+  const identity = ['-c', 'user.name=Docs', '-c', 'user.email=docs@example.com'];
+  await runGit(['-C', repoDir, ...identity, 'commit', '-qm', file]);
+}
+
+test('ensureDocsRepo checks out the requested ref offline from local objects', async () => {
+  const root = await fs.mkdtemp(path.join(os.tmpdir(), 'craft-llms-git-'));
+  try {
+    const origin = path.join(root, 'origin');
+    const clone = path.join(root, 'clone');
+    await runGit(['init', '--quiet', origin]);
+    await commitFile(origin, 'README.md', 'one\n');
+    await runGit(['-C', origin, 'tag', 'v1']);
+    await commitFile(origin, 'README.md', 'two\n');
+    const originUrl = `file://${origin}`;
+
+    await ensureDocsRepo(clone, originUrl, { ref: 'v1' });
+    await ensureDocsRepo(clone, originUrl, { ref: 'HEAD' });
+    assert.equal(await fs.readFile(path.join(clone, 'README.md'), 'utf8'), 'two\n');
+
+    await ensureDocsRepo(clone, originUrl, { ref: 'v1', offline: true });
+    assert.equal(await fs.readFile(path.join(clone, 'README.md'), 'utf8'), 'one\n');
+    assert.equal((await getRepoMeta(clone, 'v1')).ref, 'v1');
+
+    await assert.rejects(
+      ensureDocsRepo(clone, originUrl, { ref: 'v9', offline: true }),
+      /Ref "v9" is not in the clone .* Run once without --offline/,
+    );
+  } finally {
+    await fs.rm(root, { recursive: true, force: true });
+  }
+});
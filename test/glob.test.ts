@@ -0,0 +1,14 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { matchesAny } from '../src/glob.js';
+
+test('matchesAny supports *, ** and brace alternatives over relPath', () => {
+  assert.equal(matchesAny('reference/config/general.md', ['reference/**']), true);
+  assert.equal(matchesAny('reference.md', ['reference/**']), false);
+  assert.equal(matchesAny('development/templates.md', ['**/templates.md']), true);
+  assert.equal(matchesAny('templates.md', ['**/templates.md']), true);
+  assert.equal(matchesAny('development/element-queries.md', ['development/*-queries.md']), true);
+  assert.equal(matchesAny('development/queries/entries.md', ['development/*.md']), false);
+  assert.equal(matchesAny('system/plugins.md', ['{system,extend}/plugin?.md']), true);
+  assert.equal(matchesAny('README.md', ['./README.md']), true);
+});
@@ -0,0 +1,63 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { convertHtmlBlocks } from '../src/html.js';
+
+test('convertHtmlBlocks turns tables, definition lists and details into markdown', () => {
+  const input = [
+    'Settings:',
+    '<table>',
+    '  <thead><tr><th>Name</th><th>Type</th></tr></thead>',
+    '  <tbody>',
+    '    <tr><td><code>devMode</code></td><td><a href="../types.md">bool</a> | <em>null</em></td></tr>',
+    '    <tr><td>cache</td><td><p>Duration</p><p>in seconds</p></td></tr>',
+    '  </tbody>',
+    '</table>',
+    '<dl>',
+    '  <dt>id</dt><dd>The <strong>ID</strong>.</dd>',
+    '  <dt>uid</dt><dd>One</dd><dd>Two</dd>',
+    '</dl>',
+    '',
+    '<details>',
+    '<summary>More <code>params</code></summary>',
+    '',
+    '<table><tr><td>a</td><td>b</td></tr></table>',
+    '</details>',
+  ].join('\n');
+
+  assert.equal(
+    convertHtmlBlocks(input),
+    [
+      'Settings:',
+      '',
+      '| Name | Type |',
+      '| --- | --- |',
+      '| `devMode` | [bool](../types.md) \\| _null_ |',
+      '| cache | Duration<br>in seconds |',
+      '',
+      '- **id**: The **ID**.',
+      '- **uid**',
+      '  - One',
+      '  - Two',
+      '',
+      '**More `params`**',
+      '',
+      '|  |  |',
+      '| --- | --- |',
+      '| a | b |',
+    ].join('\n'),
+  );
+});
+
+test('convertHtmlBlocks keeps fenced code and HTML it cannot represent', () => {
+  const input = [
+    '```html',
+    '<table><tr><td>code</td></tr></table>',
+    '```',
+    '<table>',
+    '<tr><td colspan="2">wide</td></tr>',
+    '</table>',
+    '<dl><dd>orphan</dd></dl>',
+  ].join('\n');
+
+  assert.equal(convertHtmlBlocks(input), input);
+});
@@ -1,6 +1,21 @@
 import test from 'node:test';
 import assert from 'node:assert/strict';
-import { docPathToUrl, extractTitle, stripFrontmatter } from '../src/markdown.js';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import {
+  docPathToUrl,
+  docPathToUrlPath,
+  expandIncludeDirectives,
+  extractHeadings,
+  extractTitle,
+  findIncludePaths,
+  findLinks,
+  type IncludeProblem,
+  normalizeLinks,
+  stripFrontmatter,
+  stripVuePressDirectives,
+} from '../src/markdown.js';
 
 test('docPathToUrl maps markdown to html', () => {
   const baseUrl = 'https://craftcms.com/docs/5.x/';
@@ -15,6 +30,11 @@ test('docPathToUrl maps markdown to html', () => {
   assert.equal(docPathToUrl('index.md', baseUrl), 'https://craftcms.com/docs/5.x/index.html');
 });
 
+test('docPathToUrlPath returns the url path used for page mirrors', () => {
+  assert.equal(docPathToUrlPath('system/updates.md'), 'system/updates.html');
+  assert.equal(docPathToUrlPath('/guides/README.md'), 'guides/index.html');
+});
+
 test('extractTitle returns first H1', () => {
   const input = ['---', 'title: Ignored', '---', '', '# Real Title', '', 'Content'].join('\n');
   const stripped = stripFrontmatter(input);
@@ -26,3 +46,261 @@ test('stripFrontmatter removes yaml block', () => {
   const output = stripFrontmatter(input);
   assert.equal(output.trim(), 'Body');
 });
+
+test('normalizeLinks strips the base path of the current version', () => {
+  const input = 'See [updates](/docs/4.x/system/updates.md#cli) and [config](../config/README.md).';
+  const output = normalizeLinks(input, {
+    baseUrl: 'https://craftcms.com/docs/4.x/',
+    currentFilePath: 'system/plugins.md',
+  });
+  assert.equal(
+    output,
+    'See [updates](https://craftcms.com/docs/4.x/system/updates.html#cli) and [config](https://craftcms.com/docs/4.x/config/index.html).',
+  );
+});
+
+test('normalizeLinks resolves images, HTML attributes, autolinks and aliases', () => {
+  const input = [
+    '![Dashboard](../images/dashboard.png "The dashboard") [![Logo](@/images/logo.svg)](/docs/4.x/README.md)',
+    '<a href="./updates.md#cli">Updates</a> <img src="/docs/images/cp.png" alt="Control panel">',
+    'See <./queues.md> or `<img src="raw.png">` and `[raw](raw.md)`.',
+  ].join('\n');
+  const options = {
+    baseUrl: 'https://craftcms.com/docs/5.x/',
+    currentFilePath: 'system/plugins.md',
+    aliasPath: '..',
+  };
+
+  assert.equal(
+    normalizeLinks(input, options),
+    [
+      '![Dashboard](https://craftcms.com/docs/5.x/images/dashboard.png "The dashboard") [![Logo](https://craftcms.com/docs/images/logo.svg)](https://craftcms.com/docs/4.x/index.html)',
+      '<a href="https://craftcms.com/docs/5.x/system/updates.html#cli">Updates</a> <img src="https://craftcms.com/docs/images/cp.png" alt="Control panel">',
+      'See <https://craftcms.com/docs/5.x/system/queues.html> or `<img src="raw.png">` and `[raw](raw.md)`.',
+    ].join('\n'),
+  );
+  assert.equal(
+    normalizeLinks(input.split('\n').slice(0, 2).join('\n'), { ...options, images: 'text' }),
+    [
+      'Image: Dashboard (https://craftcms.com/docs/5.x/images/dashboard.png) [Image: Logo (https://craftcms.com/docs/images/logo.svg)](https://craftcms.com/docs/4.x/index.html)',
+      '<a href="https://craftcms.com/docs/5.x/system/updates.html#cli">Updates</a> Image: Control panel (https://craftcms.com/docs/images/cp.png)',
+    ].join('\n'),
+  );
+});
+
+test('extractHeadings uses VuePress slugs and de-duplicates them', () => {
+  const input = [
+    '## Element Queries',
+    '```md',
+    '## Not a heading',
+    '```',
+    '### `limit()` param',
+    '## Element Queries',
+    '## Custom {#my-anchor}',
+  ].join('\n');
+  assert.deepEqual(
+    extractHeadings(input).map((heading) => heading.slug),
+    ['element-queries', 'limit-param', 'element-queries-2', 'my-anchor'],
+  );
+});
+
+test('findLinks returns inline and reference links with line numbers', () => {
+  const input = ['Intro [a](a.md)', '```', '[b](b.md)', '```', '[c]: <c.md> "Title"'].join('\n');
+  assert.deepEqual(findLinks(input), [
+    { destination: 'a.md', line: 1 },
+    { destination: 'c.md', line: 5 },
+  ]);
+});
+
+test('stripVuePressDirectives turns containers into labelled blockquotes', () => {
+  const input = [
+    '::: warning Deprecated',
+    'Use the new API.',
+    ':::: tip',
+    'Nested.',
+    '::::',
+    ':::',
+    '::: code',
+    '```twig Twig',
+    '{{ entry.title }}',
+    '```',
+    ':::',
+    '::: details',
+    'Hidden',
+    ':::',
+  ].join('\n');
+  const output = stripVuePressDirectives(input, { containers: { details: 'drop' } });
+  assert.equal(
+    output,
+    [
+      '> **Warning: Deprecated**',
+      '>',
+      '> Use the new API.',
+      '>',
+      '> > **Tip**',
+      '> >',
+      '> > Nested.',
+      '',
+      '**Twig**',
+      '```twig',
+      '{{ entry.title }}',
+      '```',
+    ].join('\n'),
+  );
+});
+
+test('stripVuePressDirectives renders components from the registry and reports unknown ones', () => {
+  const input = [
+    '<Since ver="5.1" feature="Field layouts" /> <See path="../system/elements.md" />',
+    '<Tabs><Tab label="Twig">Use <Badge text="Pro" /> here.</Tab></Tabs>',
+    '<Callout type="tip" title="Heads up">Careful.</Callout>',
+    '<Ad>',
+    'Sponsored',
+    '</Ad>',
+    'Replace <handle> with <NewWidget label="widget" />.',
+  ].join('\n');
+  const unknown: string[] = [];
+  const output = stripVuePressDirectives(input, {
+    components: { callout: { template: '[**{title}:** ]' }, ad: 'drop' },
+    onUnknownComponent: (name) => unknown.push(name),
+  });
+  assert.equal(
+    output,
+    [
+      'Since 5.1: Field layouts ../system/elements.md',
+      'Use Pro here.',
+      '**Heads up:** Careful.',
+      '',
+      'Replace handle with widget.',
+    ].join('\n'),
+  );
+  assert.deepEqual(unknown, ['NewWidget']);
+});
+
+test('expandIncludeDirectives resolves snippet imports, regions and line ranges', async () => {
+  const repoRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'craft-llms-snippets-'));
+  try {
+    await fs.mkdir(path.join(repoRoot, 'docs/snippets'), { recursive: true });
+    await fs.writeFile(
+      path.join(repoRoot, 'docs/snippets/config.php'),
+      [
+        '<?php',
+        'return [',
+        '    // #region general',
+        "    'devMode' => true,",
+        '    // #endregion general',
+        '];',
+      ].join('\n'),
+    );
+    await fs.writeFile(path.join(repoRoot, 'docs/shared.md'), 'one\ntwo\nthree\n');
+
+    const dependencies = new Set<string>();
+    const page = path.join(repoRoot, 'docs/page.md');
+    const expanded = await expandIncludeDirectives(
+      [
+        '<<< @/snippets/config.php#general',
+        '',
+        '<<< @/snippets/config.php{1-2}',
+        '',
+        '!!!include(./shared.md{2})!!!',
+        '',
+        '```',
+        '<<< @/snippets/missing.php',
+        '```',
+      ].join('\n'),
+      { repoRoot, currentFilePath: page, aliasRoot: path.join(repoRoot, 'docs'), dependencies },
+    );
+
+    assert.equal(
+      expanded,
+      [
+        '```php',
+        "'devMode' => true,",
+        '```',
+        '',
+        '```php',
+        '<?php',
+        'return [',
+        '```',
+        '',
+        'two',
+        '',
+        '```',
+        '<<< @/snippets/missing.php',
+        '```',
+      ].join('\n'),
+    );
+    assert.equal(dependencies.size, 2);
+
+    await assert.rejects(
+      expandIncludeDirectives('<<< @/../../etc/passwd', {
+        repoRoot,
+        currentFilePath: page,
+        aliasRoot: path.join(repoRoot, 'docs'),
+      }),
+      /escapes repo root/,
+    );
+    await assert.rejects(
+      expandIncludeDirectives('!!!include(docs/snippets/config.php#nope)!!!', {
+        repoRoot,
+        currentFilePath: page,
+      }),
+      /Region "nope" not found/,
+    );
+  } finally {
+    await fs.rm(repoRoot, { recursive: true, force: true });
+  }
+});
+
+test('expandIncludeDirectives reports broken includes and keeps going with onError', async () => {
+  const repoRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'craft-llms-includes-'));
+  try {
+    await fs.mkdir(path.join(repoRoot, 'docs'), { recursive: true });
+    await fs.writeFile(path.join(repoRoot, 'docs/loop.md'), 'loop\n!!!include(./loop.md)!!!\n');
+
+    const problems: IncludeProblem[] = [];
+    const expanded = await expandIncludeDirectives(
+      ['Intro', '', '!!!include(./missing.md)!!!', '', '!!!include(./loop.md)!!!', 'Outro'].join(
+        '\n',
+      ),
+      {
+        repoRoot,
+        currentFilePath: path.join(repoRoot, 'docs/page.md'),
+        onError: (problem) => problems.push(problem),
+      },
+    );
+
+    assert.equal(expanded, ['Intro', '', '', '', 'loop', '', '', 'Outro'].join('\n'));
+    assert.deepEqual(
+      problems.map(({ code, file, line }) => ({ code, file: path.relative(repoRoot, file), line })),
+      [
+        { code: 'include-not-found', file: 'docs/page.md', line: 3 },
+        { code: 'include-cycle', file: 'docs/loop.md', line: 2 },
+      ],
+    );
+  } finally {
+    await fs.rm(repoRoot, { recursive: true, force: true });
+  }
+});
+
+test('findIncludePaths resolves include and snippet targets without reading them', () => {
+  const repoRoot = path.resolve('/repo');
+  const paths = findIncludePaths(
+    [
+      '!!!include(./shared.md{2})!!!',
+      '<<< @/snippets/config.php#general',
+      '<<< snippets/app.env{bash}',
+      '!!!include(../../../outside.md)!!!',
+    ].join('\n'),
+    {
+      repoRoot,
+      currentFilePath: path.join(repoRoot, 'docs/5.x/page.md'),
+      aliasRoot: path.join(repoRoot, 'docs'),
+    },
+  );
+
+  assert.deepEqual(
+    paths.map((item) => path.relative(repoRoot, item).split(path.sep).join('/')),
+    ['docs/5.x/shared.md', 'docs/snippets/config.php', 'snippets/app.env'],
+  );
+});
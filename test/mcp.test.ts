@@ -0,0 +1,74 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { createMcpHandler } from '../src/mcp.js';
+import { buildSearchIndex } from '../src/search.js';
+
+const index = buildSearchIndex(
+  [{ id: '5.x', title: 'Craft CMS 5.x', commit: 'abc1234', timestamp: '2025-01-14T10:00:00Z' }],
+  [
+    {
+      source: '5.x',
+      relPath: 'system/project-config.md',
+      url: 'https://craftcms.com/docs/5.x/system/project-config.html',
+      title: 'Project Config',
+      group: 'System',
+      body: 'Project config stores settings in YAML files.',
+    },
+  ],
+);
+const handle = createMcpHandler(async () => index, '0.1.0');
+
+test('mcp handler answers initialize and lists tools', async () => {
+  const init = await handle({
+    jsonrpc: '2.0',
+    id: 1,
+    method: 'initialize',
+    params: { protocolVersion: '2024-11-05' },
+  });
+  assert.deepEqual((init?.result as { protocolVersion: string }).protocolVersion, '2024-11-05');
+  assert.equal(await handle({ jsonrpc: '2.0', method: 'notifications/initialized' }), undefined);
+
+  const list = await handle({ jsonrpc: '2.0', id: 2, method: 'tools/list' });
+  assert.deepEqual(
+    (list?.result as { tools: { name: string }[] }).tools.map((tool) => tool.name),
+    ['list_sections', 'get_page', 'search_docs'],
+  );
+});
+
+test('mcp get_page finds pages by path or URL and reports the snapshot', async () => {
+  for (const args of [
+    { path: 'system/project-config' },
+    { path: '5.x/system/project-config.md' },
+    { url: 'https://craftcms.com/docs/5.x/system/project-config.html#apply' },
+  ]) {
+    const response = await handle({
+      jsonrpc: '2.0',
+      id: 3,
+      method: 'tools/call',
+      params: { name: 'get_page', arguments: args },
+    });
+    const result = response?.result as { content: { text: string }[]; isError?: boolean };
+    assert.equal(result.isError, undefined);
+    assert.match(result.content[0].text, /^# Project Config\n/);
+    assert.match(result.content[0].text, /Snapshot: 5\.x \(commit abc1234, updated 2025-01-14T10:00:00Z\)\.$/);
+  }
+
+  const missing = await handle({
+    jsonrpc: '2.0',
+    id: 4,
+    method: 'tools/call',
+    params: { name: 'get_page', arguments: { path: 'nope' } },
+  });
+  assert.equal((missing?.result as { isError: boolean }).isError, true);
+});
+
+test('mcp handler reports a failing request against its id', async () => {
+  const failing = createMcpHandler(async () => {
+    throw new Error('search-index.json is missing');
+  }, '0.1.0');
+  assert.deepEqual(await failing({ jsonrpc: '2.0', id: 7, method: 'initialize', params: {} }), {
+    jsonrpc: '2.0',
+    id: 7,
+    error: { code: -32603, message: 'search-index.json is missing' },
+  });
+});
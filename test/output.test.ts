@@ -0,0 +1,152 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { createHash } from 'node:crypto';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import {
+  claimOutputDir,
+  MANIFEST_FILE,
+  publishOutputDir,
+  stageOutputDir,
+  writeManifest,
+} from '../src/output.js';
+
+async function withOutputDir(run: (root: string, outputDir: string) => Promise<void>): Promise<void> {
+  const root = await fs.mkdtemp(path.join(os.tmpdir(), 'craft-llms-output-'));
+  try {
+    await run(root, path.join(root, 'public'));
+  } finally {
+    await fs.rm(root, { recursive: true, force: true });
+  }
+}
+
+async function writeFiles(dir: string, files: Record<string, string>): Promise<void> {
+  for (const [relPath, content] of Object.entries(files)) {
+    await fs.mkdir(path.dirname(path.join(dir, relPath)), { recursive: true });
+    await fs.writeFile(path.join(dir, relPath), content);
+  }
+}
+
+const INFO = {
+  tool: { name: 'craft-llms', version: '0.1.0' },
+  configHash: 'abc',
+  pages: 1,
+  sources: [{ id: '5.x', commit: '1234567', timestamp: '2024-01-01T00:00:00Z', pages: 1 }],
+};
+
+test('publishOutputDir replaces the outputs of the last build and leaves other files alone', async () => {
+  await withOutputDir(async (root, outputDir) => {
+    await writeFiles(outputDir, {
+      'llms.txt': 'old index\n',
+      '5.x/llms.txt': 'old source index\n',
+      '5.x/pages.jsonl': 'old pages\n',
+      '4.x/llms.txt': 'removed source\n',
+    });
+    await writeManifest(outputDir, INFO);
+    await writeFiles(outputDir, { 'keep.txt': 'mine\n', '5.x/notes.txt': 'mine too\n' });
+    await fs.chmod(outputDir, 0o750);
+    const previous = await claimOutputDir(outputDir, false);
+
+    const stagingDir = await stageOutputDir(outputDir);
+    assert.deepEqual(await fs.readdir(stagingDir), []);
+    await writeFiles(stagingDir, { 'llms.txt': 'new index\n', '5.x/llms.txt': 'new source index\n' });
+    await writeManifest(stagingDir, INFO);
+    await publishOutputDir(stagingDir, outputDir, previous);
+    await fs.rm(stagingDir, { recursive: true });
+
+    assert.deepEqual((await fs.readdir(outputDir)).sort(), [
+      '5.x',
+      'keep.txt',
+      'llms.txt',
+      MANIFEST_FILE,
+    ]);
+    assert.deepEqual((await fs.readdir(path.join(outputDir, '5.x'))).sort(), ['llms.txt', 'notes.txt']);
+    assert.equal(await fs.readFile(path.join(outputDir, 'llms.txt'), 'utf8'), 'new index\n');
+    assert.equal(await fs.readFile(path.join(outputDir, 'keep.txt'), 'utf8'), 'mine\n');
+    const manifest = JSON.parse(await fs.readFile(path.join(outputDir, MANIFEST_FILE), 'utf8'));
+    assert.deepEqual(
+      manifest.files.map((file: { path: string }) => file.path),
+      ['5.x/llms.txt', 'llms.txt'],
+    );
+    assert.equal((await fs.stat(outputDir)).mode & 0o777, 0o750);
+    assert.deepEqual((await fs.readdir(root)).sort(), ['public']);
+  });
+});
+
+test('publishOutputDir keeps every output readable while it runs', async () => {
+  await withOutputDir(async (_root, outputDir) => {
+    const files = Object.fromEntries(
+      Array.from({ length: 50 }, (_, index) => [`5.x/page-${index}.md`, 'old\n']),
+    );
+    await writeFiles(outputDir, { ...files, 'llms.txt': 'old\n' });
+    await writeManifest(outputDir, INFO);
+    const previous = await claimOutputDir(outputDir, false);
+
+    const stagingDir = await stageOutputDir(outputDir);
+    await writeFiles(stagingDir, {
+      ...Object.fromEntries(Object.keys(files).map((relPath) => [relPath, 'new\n'])),
+      'llms.txt': 'new\n',
+    });
+    await writeManifest(stagingDir, INFO);
+
+    let done = false;
+    const reads: string[] = [];
+    const publishing = publishOutputDir(stagingDir, outputDir, previous).finally(() => {
+      done = true;
+    });
+    while (!done) {
+      reads.push(await fs.readFile(path.join(outputDir, '5.x/page-49.md'), 'utf8'));
+      reads.push(await fs.readFile(path.join(outputDir, 'llms.txt'), 'utf8'));
+    }
+    await publishing;
+
+    assert.ok(reads.length > 2);
+    assert.ok(reads.every((text) => text === 'old\n' || text === 'new\n'));
+    assert.equal(await fs.readFile(path.join(outputDir, '5.x/page-49.md'), 'utf8'), 'new\n');
+  });
+});
+
+test('claimOutputDir refuses a non-empty directory without a manifest unless forced', async () => {
+  await withOutputDir(async (_root, outputDir) => {
+    assert.equal(await claimOutputDir(outputDir, false), undefined);
+    await fs.mkdir(outputDir);
+    assert.equal(await claimOutputDir(outputDir, false), undefined);
+
+    await writeFiles(outputDir, { 'index.html': '<h1>My site</h1>\n' });
+    await assert.rejects(
+      claimOutputDir(outputDir, false),
+      /has files but no manifest\.json, so it was not written by craft-llms\. Pass --force/,
+    );
+    assert.equal(await claimOutputDir(outputDir, true), undefined);
+
+    await writeManifest(outputDir, INFO);
+    assert.deepEqual((await claimOutputDir(outputDir, false))?.files.map((file) => file.path), [
+      'index.html',
+    ]);
+  });
+});
+
+test('writeManifest lists every output with its size and SHA-256', async () => {
+  const outputDir = await fs.mkdtemp(path.join(os.tmpdir(), 'craft-llms-manifest-'));
+  try {
+    await fs.mkdir(path.join(outputDir, '5.x'));
+    await fs.writeFile(path.join(outputDir, 'llms.txt'), '# Index\n');
+    await fs.writeFile(path.join(outputDir, '5.x/llms-full.txt'), 'Café\n');
+
+    await writeManifest(outputDir, INFO);
+    // A second run must not list the previous manifest.
+    const manifestPath = await writeManifest(outputDir, INFO);
+
+    assert.equal(manifestPath, path.join(outputDir, MANIFEST_FILE));
+    const manifest = JSON.parse(await fs.readFile(manifestPath, 'utf8'));
+    const sha256 = (text: string) => createHash('sha256').update(text).digest('hex');
+    assert.equal(manifest.configHash, 'abc');
+    assert.deepEqual(manifest.files, [
+      { path: '5.x/llms-full.txt', bytes: 6, sha256: sha256('Café\n') },
+      { path: 'llms.txt', bytes: 8, sha256: sha256('# Index\n') },
+    ]);
+  } finally {
+    await fs.rm(outputDir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,52 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { buildSearchIndex, search, type SearchDocument } from '../src/search.js';
+
+const documents: SearchDocument[] = [
+  {
+    source: '5.x',
+    relPath: 'system/project-config.md',
+    url: 'https://craftcms.com/docs/5.x/system/project-config.html',
+    title: 'Project Config',
+    group: 'System',
+    body: 'Project config stores settings in YAML files. Apply [project config](https://craftcms.com/docs/5.x/system/project-config.html) changes on deploy.',
+  },
+  {
+    source: '5.x',
+    relPath: 'deploy.md',
+    url: 'https://craftcms.com/docs/5.x/deploy.html',
+    title: 'Deployment',
+    group: 'Getting Started',
+    body: 'Run migrations and apply project config after each deploy.',
+  },
+  {
+    source: '5.x',
+    relPath: 'templates.md',
+    url: 'https://craftcms.com/docs/5.x/templates.html',
+    title: 'Templates',
+    group: 'Development',
+    body: 'Twig templates live in the templates folder.',
+  },
+];
+
+test('search ranks pages with BM25 and boosts title matches', () => {
+  const index = buildSearchIndex([], documents);
+  const results = search(index, 'project config');
+
+  assert.deepEqual(
+    results.map((result) => result.relPath),
+    ['system/project-config.md', 'deploy.md'],
+  );
+  assert.equal(results[1].snippet, 'Run migrations and apply **project** **config** after each deploy.');
+});
+
+test('search filters by group and limits the result count', () => {
+  const index = buildSearchIndex([], documents);
+
+  assert.deepEqual(
+    search(index, 'deploy', { group: 'getting' }).map((result) => result.relPath),
+    ['deploy.md'],
+  );
+  assert.equal(search(index, 'deploy', { limit: 1 }).length, 1);
+  assert.deepEqual(search(index, 'the and'), []);
+});
@@ -0,0 +1,84 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { groupPages, loadSidebar, normalizeSidebar } from '../src/sidebar.js';
+
+test('groupPages orders pages by the sidebar and appends the rest', () => {
+  const sidebar = normalizeSidebar({
+    '/': [{ title: 'Getting Started', children: ['', 'installation'] }],
+    '/extend/': [{ title: 'Extending Craft', children: [['', 'Introduction'], 'plugins'] }],
+  });
+  const pages = [
+    { relPath: 'README.md', group: 'root' },
+    { relPath: 'extend/README.md', group: 'extend' },
+    { relPath: 'extend/plugins.md', group: 'extend' },
+    { relPath: 'installation.md', group: 'root' },
+    { relPath: 'system/updates.md', group: 'system' },
+  ];
+
+  const groups = groupPages(pages, sidebar);
+  assert.deepEqual(
+    groups.map((group) => [group.title, group.pages.map((page) => page.relPath)]),
+    [
+      ['Getting Started', ['README.md', 'installation.md']],
+      ['Extending Craft', ['extend/README.md', 'extend/plugins.md']],
+      ['system', ['system/updates.md']],
+    ],
+  );
+});
+
+test('loadSidebar reads the exported literal without running the file', async () => {
+  const root = await fs.mkdtemp(path.join(os.tmpdir(), 'craft-llms-sidebar-'));
+  try {
+    const setFile = path.join(root, 'craft-cms.js');
+    await fs.writeFile(
+      setFile,
+      `"use strict";
+// The doc set for Craft CMS.
+module.exports = {
+  title: "Craft CMS Documentation",
+  versions: [
+    [
+      "5.x",
+      {
+        sidebar: {
+          "/": [
+            { title: 'Getting Started', collapsable: false, children: [["", "Introduction"], \`installation\`] },
+          ],
+          /* Extending lives in its own section. */
+          "/extend/": [{ title: "Extending Craft", children: ["plugins"] }],
+        },
+      },
+    ],
+    ["4.x", { sidebar: { "/": [] } }],
+  ],
+  defaultVersion: 5.0,
+};
+`,
+    );
+    const sidebar = await loadSidebar(setFile, '5.x');
+    assert.deepEqual(
+      sidebar?.map((entry) => [entry.groupTitle, entry.candidates[0]]),
+      [
+        ['Getting Started', 'README.md'],
+        ['Getting Started', 'installation.md'],
+        ['Extending Craft', 'extend/plugins.md'],
+      ],
+    );
+
+    const marker = path.join(root, 'ran');
+    const codeFile = path.join(root, 'code.js');
+    await fs.writeFile(
+      codeFile,
+      `module.exports = { sidebar: require('fs').writeFileSync(${JSON.stringify(marker)}, '') };\n`,
+    );
+    const errors: string[] = [];
+    assert.equal(await loadSidebar(codeFile, undefined, (message) => errors.push(message)), undefined);
+    assert.deepEqual(errors, ['Unexpected `require`, only plain literals are allowed at line 1']);
+    await assert.rejects(fs.access(marker));
+  } finally {
+    await fs.rm(root, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,18 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { estimateTokens, splitBySize } from '../src/tokens.js';
+
+test('estimateTokens uses four characters per token', () => {
+  assert.equal(estimateTokens(''), 0);
+  assert.equal(estimateTokens('abcdefgh'), 2);
+  assert.equal(estimateTokens('abcdefghi'), 3);
+});
+
+test('splitBySize keeps chunks whole and starts a part when the limit is reached', () => {
+  const chunks = ['a'.repeat(40), 'b'.repeat(40), 'c'.repeat(200), 'd'.repeat(8)];
+  const parts = splitBySize(chunks, { maxTokens: 25 });
+  assert.deepEqual(
+    parts.map((part) => part.map((chunk) => chunk[0]).join('')),
+    ['ab', 'c', 'd'],
+  );
+});